@@ -3898,7 +3898,8 @@ export default function FaceCanvas(): JSX.Element {
 } */
 
 // src/components/FaceCanvas.tsx
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { flushSync } from "react-dom";
 import {
   Stage,
   Layer,
@@ -3907,38 +3908,111 @@ import {
   Line,
   Text,
   Group,
+  Rect,
 } from "react-konva";
-import * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
-import * as tf from "@tensorflow/tfjs-core";
-import "@tensorflow/tfjs-backend-webgl";
+import type Konva from "konva";
 import { nanoid } from "nanoid";
-
-type Landmark = [number, number, number?];
-
+import { INITIAL_BACKEND_STATUS, resolveBackendChain, type BackendStatus } from "../lib/backends.ts";
+import { INITIAL_MODEL_STATUS, MODEL_BASE_URL, type ModelStatus } from "../lib/models.ts";
+import { landmarkBounds, type FacePrediction, type Landmark } from "../lib/detector.ts";
+import { DetectionCancelledError, createDetectorClient, type DetectorClient } from "../lib/detectorClient.ts";
+import { DEFAULT_POSE_TOLERANCE, estimateHeadPose, poseWarnings, type PoseTolerance } from "../lib/headPose.ts";
+import {
+  IDENTITY,
+  affineToNodeProps,
+  applyAffine,
+  imageToStage,
+  invertAffine,
+  layoutView,
+  makeViewTransform,
+  stageToImage,
+  type Vec2,
+} from "../lib/transform.ts";
+import { eyeLineAngle, levelAffine } from "../lib/level.ts";
+import { fitMidline, midlineResidual, twoPointMidline, type MidlineLine, type MidlineMode } from "../lib/midline.ts";
+import { describePoint, type RelativeLocation } from "../lib/pointLocation.ts";
+import { analyzeLowerFace } from "../lib/lowerFace.ts";
+import { DEFAULT_FACE_SHAPE_RULES, FACE_SHAPES, classifyFaceShape, type FaceShapeRules } from "../lib/faceShape.ts";
+import {
+  buildDepthMesh,
+  depthColor,
+  depthContours,
+  depthProfile,
+  projectionT,
+  siteProjections,
+  type DepthProfile,
+} from "../lib/depth.ts";
+import { analyzePeriorbital, periorbitalSummary, type EyeSide } from "../lib/periorbital.ts";
+import { DEFAULT_LIP_IDEALS, analyzeLips, type LipIdeals } from "../lib/lips.ts";
+import { analyzeNose } from "../lib/nose.ts";
+import { analyzeMidface, midfaceSummary, tearTroughPreset, type Groove } from "../lib/midface.ts";
+import { DEFAULT_IPD_MM, formatLength, resolveCalibration, toMm, type CalibrationSource } from "../lib/calibration.ts";
+import { SESSION_VERSION, downloadJson, type SessionExport } from "../lib/session.ts";
+import { ANCHORS, fitAnchorMesh, type AnchorId } from "../lib/anchorFit.ts";
+import { KEY_LANDMARKS, applyLandmarkOverrides, type LandmarkOverrides } from "../lib/landmarkOverrides.ts";
+import {
+  LANDMARK_REGISTRY,
+  REGISTRY_MESH_VERSION,
+  getLandmark,
+  lmIndices,
+  nameForIndex,
+  namesToXY,
+  validateRegistry,
+  type LandmarkName,
+} from "../lib/landmarkRegistry.ts";
+import {
+  MEASUREMENT_KINDS,
+  measurementKind,
+  measurementValue,
+  nearestLandmark,
+  type Measurement,
+  type MeasurementKind,
+} from "../lib/measurements.ts";
+import {
+  FIFTHS_TOLERANCE,
+  FIFTH_LABELS,
+  IDEAL_FIFTH,
+  PHI,
+  PHI_TOLERANCE,
+  facialFifths,
+  phiAnalysis,
+} from "../lib/proportions.ts";
+import { IDEAL_THIRD, THIRDS_TOLERANCE, facialThirds } from "../lib/thirds.ts";
+import { SYMMETRY_REGIONS, analyzeSymmetry, convexHull, heatColor, HEATMAP_MAX_SCORE } from "../lib/symmetry.ts";
+
+// minimal shape of the Konva drag events we read (react-konva is untyped here, see src/types)
+type KonvaDragEvent = { target: { x(): number; y(): number } };
+
+// x / y are image pixels (see src/lib/transform.ts)
 type AnnotationPoint = {
   id: string;
   x: number;
   y: number;
   product?: string;
   dose?: string;
+  // free text, e.g. injection depth or "cannula entry" from a preset
+  note?: string;
 };
 
 const DEFAULT_STAGE_WIDTH = 800;
 const DEFAULT_STAGE_HEIGHT = 800;
-
-function fitImage(imageWidth: number, imageHeight: number, stageW: number, stageH: number) {
-  const imgRatio = imageWidth / imageHeight;
-  const stageRatio = stageW / stageH;
-  let width = stageW;
-  let height = stageH;
-  if (imgRatio > stageRatio) {
-    width = stageW;
-    height = Math.round(stageW / imgRatio);
-  } else {
-    height = stageH;
-    width = Math.round(stageH * imgRatio);
-  }
-  return { width, height };
+// group photos / before-after composites can hold several faces
+const MAX_FACES = 6;
+// longest side of the image handed to the detector; 0 = native resolution
+const DETECT_SIZE_OPTIONS = [0, 4096, 2048, 1024];
+
+const EMPTY_MESH: Landmark[] = [];
+
+// helper: the default lip points placed on a freshly detected face
+function defaultPointsFor(mesh: Landmark[]): AnnotationPoint[] {
+  const lipLandmarks: LandmarkName[] = ["stomion_superius", "stomion_inferius", "inner_lip_corner_right", "inner_lip_corner_left"];
+  return lipLandmarks
+    .map((name) => {
+      const p = getLandmark(mesh, name);
+      if (!p) return null;
+      return { id: nanoid(), x: p[0], y: p[1], product: "", dose: "" };
+    })
+    .filter(Boolean) as AnnotationPoint[];
 }
 
 // vector helpers
@@ -3971,16 +4045,24 @@ function perpDistanceToLine(point: { x: number; y: number }, a: { x: number; y:
   return { dist, side };
 }
 
-// helper: convert indices -> [x,y] points. returns null if any landmark missing
-function indicesToXY(indices: number[], landmarks: Landmark[] | null) {
-  if (!landmarks || landmarks.length === 0) return null;
-  const pts: { x: number; y: number }[] = [];
-  for (const i of indices) {
-    const lm = landmarks[i];
-    if (!lm || typeof lm[0] !== "number") return null;
-    pts.push({ x: lm[0], y: lm[1] });
+
+// depth profile as svg polylines (one per run of samples inside the mesh); nearer = higher
+function profilePolylines(profile: DepthProfile, width: number, height: number): string[] {
+  const vals = profile.samples.flatMap((s) => (s.projectionPx === null ? [] : [s.projectionPx]));
+  if (vals.length < 2 || profile.lengthPx === 0) return [];
+  const lo = Math.min(...vals);
+  const range = Math.max(...vals) - lo || 1;
+  const runs: string[][] = [[]];
+  for (const s of profile.samples) {
+    if (s.projectionPx === null) {
+      if (runs[runs.length - 1].length > 0) runs.push([]);
+      continue;
+    }
+    const x = (s.distPx / profile.lengthPx) * width;
+    const y = height - ((s.projectionPx - lo) / range) * (height - 4) - 2;
+    runs[runs.length - 1].push(`${x.toFixed(1)},${y.toFixed(1)}`);
   }
-  return pts;
+  return runs.filter((r) => r.length > 1).map((r) => r.join(" "));
 }
 
 // helper: flatten xy to number[] for Konva Line
@@ -4031,24 +4113,69 @@ function samplesAlong(pts: { x: number; y: number }[], n = 10) {
   return samples;
 }
 
-// @ts-ignore
-export default function FaceCanvas(): JSX.Element {
+export default function FaceCanvas(): React.JSX.Element {
   const [file, setFile] = useState<File | null>(null);
   const [imageSrc, setImageSrc] = useState<string | null>(null);
   const [imgEl, setImgEl] = useState<HTMLImageElement | null>(null);
-  const stageRef = useRef<any>(null);
-
-  const [imageFit, setImageFit] = useState<{ width: number; height: number } | null>(null);
-  const [landmarks, setLandmarks] = useState<Landmark[]>([]);
-  const [detector, setDetector] = useState<any | null>(null);
+  const stageRef = useRef<Konva.Stage>(null);
+
+  const [faces, setFaces] = useState<FacePrediction[]>([]);
+  const [selectedFace, setSelectedFace] = useState(0);
+  // manual corrections per face index, applied on top of the raw detection
+  const [landmarkOverrides, setLandmarkOverrides] = useState<Record<number, LandmarkOverrides>>({});
+  const [editLandmarks, setEditLandmarks] = useState<"off" | "key" | "all">("off");
+  // manual anchor fallback for photos the model can't handle
+  const [noFaceFound, setNoFaceFound] = useState(false);
+  const [anchorMode, setAnchorMode] = useState(false);
+  const [anchors, setAnchors] = useState<Partial<Record<AnchorId, Vec2>>>({});
+  const [detector, setDetector] = useState<DetectorClient | null>(null);
+  const detectorClientRef = useRef<DetectorClient | null>(null);
+  const [detectProgress, setDetectProgress] = useState<string | null>(null);
+  const [detectorInitFailed, setDetectorInitFailed] = useState(false);
+  const [backendStatus, setBackendStatus] = useState<BackendStatus>(INITIAL_BACKEND_STATUS);
+  const [modelStatus, setModelStatus] = useState<ModelStatus>(INITIAL_MODEL_STATUS);
   const [points, setPoints] = useState<AnnotationPoint[]>([]);
-  const [stageSize, setStageSize] = useState({ width: DEFAULT_STAGE_WIDTH, height: DEFAULT_STAGE_HEIGHT });
+  // latest points for the detection effect, which must not re-detect whenever a point changes
+  const pointsRef = useRef(points);
+  pointsRef.current = points;
+  // true while `points` are still the untouched defaults for the selected face
+  const [pointsAreDefaults, setPointsAreDefaults] = useState(false);
+  const [detectMaxSide, setDetectMaxSide] = useState<number>(0);
+  const [poseTolerance, setPoseTolerance] = useState<PoseTolerance>(DEFAULT_POSE_TOLERANCE);
+  const [calibrationSource, setCalibrationSource] = useState<CalibrationSource>("iris");
+  const [ipdMm, setIpdMm] = useState<number>(DEFAULT_IPD_MM);
 
   // toggles
   const [showMidline, setShowMidline] = useState(true);
+  const [midlineMode, setMidlineMode] = useState<MidlineMode>("fitted");
+  // hand-drawn midline per face index (image px)
+  const [manualMidlines, setManualMidlines] = useState<Record<number, MidlineLine>>({});
   const [showEyeLine, setShowEyeLine] = useState(true);
   const [showThirds, setShowThirds] = useState(true);
+  const [showSymmetry, setShowSymmetry] = useState(false);
+  const [showFifths, setShowFifths] = useState(false);
+  const [showPhiMask, setShowPhiMask] = useState(false);
+  const [showLips, setShowLips] = useState(false);
+  const [showNose, setShowNose] = useState(false);
+  const [showPeriorbital, setShowPeriorbital] = useState(false);
+  const [showMidface, setShowMidface] = useState(false);
+  const [showJawline, setShowJawline] = useState(false);
+  const [showDepth, setShowDepth] = useState(false);
+  const [depthStyle, setDepthStyle] = useState<"ramp" | "contours">("ramp");
+  const [lipIdeals, setLipIdeals] = useState<LipIdeals>(DEFAULT_LIP_IDEALS);
+  const [faceShapeRules, setFaceShapeRules] = useState<FaceShapeRules>(DEFAULT_FACE_SHAPE_RULES);
+
+  // measurement tools (image px)
+  const [measurements, setMeasurements] = useState<Measurement[]>([]);
+  const [measureTool, setMeasureTool] = useState<MeasurementKind | null>(null);
+  const [measureDraft, setMeasureDraft] = useState<Vec2[]>([]);
+  const [snapMeasurements, setSnapMeasurements] = useState(true);
+  // user-placed trichion per face index (image px); the mesh doesn't reach the hairline
+  const [trichionOverrides, setTrichionOverrides] = useState<Record<number, Vec2>>({});
   const [showLandmarks, setShowLandmarks] = useState<boolean>(true);
+  // rotate the view so the eye-line is horizontal
+  const [levelMode, setLevelMode] = useState(false);
+  const [exportOrientation, setExportOrientation] = useState<"shown" | "original" | "levelled">("shown");
 
   // anatomy
   const [showMuscles, setShowMuscles] = useState<boolean>(true);
@@ -4069,12 +4196,10 @@ export default function FaceCanvas(): JSX.Element {
     reader.readAsDataURL(file);
   }, [file]);
 
-  // data URL -> image element + compute fit
+  // data URL -> image element
   useEffect(() => {
     if (!imageSrc) {
       setImgEl(null);
-      setImageFit(null);
-      setStageSize({ width: DEFAULT_STAGE_WIDTH, height: DEFAULT_STAGE_HEIGHT });
       return;
     }
     let mounted = true;
@@ -4084,143 +4209,78 @@ export default function FaceCanvas(): JSX.Element {
     image.onload = () => {
       if (!mounted) return;
       setImgEl(image);
-      const naturalW = image.naturalWidth || DEFAULT_STAGE_WIDTH;
-      const naturalH = image.naturalHeight || DEFAULT_STAGE_HEIGHT;
-      const fit = fitImage(naturalW, naturalH, DEFAULT_STAGE_WIDTH, DEFAULT_STAGE_HEIGHT);
-      setImageFit(fit);
-      setStageSize({ width: fit.width, height: fit.height });
     };
     image.onerror = (err) => {
       console.error("Image load error", err);
-      if (mounted) {
-        setImgEl(null);
-        setImageFit(null);
-      }
+      if (mounted) setImgEl(null);
     };
     return () => {
       mounted = false;
     };
   }, [imageSrc]);
 
-  // create detector
+  // detector lives in a worker; it reports backend/model status and progress as it starts
   useEffect(() => {
-    let mounted = true;
-    let created: any = null;
-
-    async function setup() {
-      try {
-        await tf.setBackend("webgl");
-        await tf.ready();
-
-        const modelConst = (faceLandmarksDetection as any).SupportedModels?.MediaPipeFaceMesh ??
-                           (faceLandmarksDetection as any).MediaPipeFaceMesh;
-
-        const detectorConfigTfjs = { runtime: "tfjs", maxFaces: 1, refineLandmarks: true };
-
-        try {
-          created = await (faceLandmarksDetection as any).createDetector(modelConst, detectorConfigTfjs);
-          if (mounted) setDetector(created);
-          else if (created?.dispose) created.dispose();
-        } catch (errCreate) {
-          console.warn("createDetector failed; trying legacy load():", errCreate);
-          try {
-            created = await (faceLandmarksDetection as any).load(
-              (faceLandmarksDetection as any).SupportedPackages?.mediapipeFacemesh ??
-                (faceLandmarksDetection as any).SupportedPackages,
-              { maxFaces: 1 }
-            );
-            if (mounted) setDetector(created);
-          } catch (errLegacy) {
-            console.error("Both createDetector and legacy load() failed:", errLegacy);
-            throw errLegacy;
-          }
-        }
-      } catch (err) {
-        console.error("Detector setup error:", err);
+    setBackendStatus({ ...INITIAL_BACKEND_STATUS, state: "loading" });
+    const client = createDetectorClient({ backends: resolveBackendChain(), maxFaces: MAX_FACES }, (event) => {
+      switch (event.type) {
+        case "progress":
+          setDetectProgress(event.message);
+          break;
+        case "backend":
+          setBackendStatus(event.status);
+          break;
+        case "model":
+          setModelStatus(event.status);
+          break;
+        case "ready":
+          setDetectProgress(null);
+          setDetector(client);
+          break;
+        case "init-error":
+          console.error("Detector setup error:", event.error);
+          setDetectProgress(null);
+          setDetectorInitFailed(true);
+          break;
       }
-    }
-
-    setup();
+    });
+    detectorClientRef.current = client;
 
     return () => {
-      mounted = false;
-      if (created && typeof created.dispose === "function") {
-        try {
-          created.dispose();
-        } catch {}
-      }
+      detectorClientRef.current = null;
+      setDetector(null);
+      client.dispose();
     };
   }, []);
 
-  // detection (run after imageFit)
+  // detection at native resolution (or detectMaxSide); results are in image pixels
   useEffect(() => {
-    if (!detector || !imgEl || !imageFit) return;
-    let cancelled = false;
+    if (!detector || !imgEl) return;
+    const controller = new AbortController();
 
     async function detectOnce() {
       try {
-        const off = document.createElement("canvas");
-        off.width = imageFit.width;
-        off.height = imageFit.height;
-        const ctx = off.getContext("2d")!;
-        ctx.clearRect(0, 0, off.width, off.height);
-        ctx.drawImage(imgEl, 0, 0, imageFit.width, imageFit.height);
-
-        let predictions: any = null;
-        let lastErr: any = null;
-
-        try {
-          predictions = await (detector as any).estimateFaces(off);
-        } catch (e1) {
-          lastErr = e1;
-          try {
-            predictions = await (detector as any).estimateFaces({ input: off });
-          } catch (e2) {
-            lastErr = e2;
-            try {
-              predictions = await (detector as any).estimateFaces(off, { flipHorizontal: false });
-            } catch (e3) {
-              lastErr = e3;
-            }
-          }
-        }
-
-        if (!predictions) {
-          console.error("All estimateFaces attempts failed:", lastErr);
-          throw lastErr;
-        }
-
-        if (cancelled) return;
-
-        if (!predictions || predictions.length === 0) {
-          setLandmarks([]);
-          return;
-        }
-
-        const face = predictions[0] as any;
-        let mesh: Landmark[] = [];
-
-        if (Array.isArray(face?.scaledMesh)) mesh = face.scaledMesh as Landmark[];
-        else if (Array.isArray(face?.mesh)) mesh = face.mesh as Landmark[];
-        else if (Array.isArray(face?.keypoints)) mesh = (face.keypoints as any[]).map(kp => [kp.x, kp.y, kp.z ?? 0]);
-        else if (Array.isArray(face?.keypoints3D)) mesh = face.keypoints3D as Landmark[];
-        else console.warn("Unknown prediction shape", face);
-
-        setLandmarks(mesh || []);
+        const bitmap = await createImageBitmap(imgEl);
+        const { faces: predictions } = await detector.detect(bitmap, { maxSide: detectMaxSide, signal: controller.signal });
+        setDetectProgress(null);
+
+        // left-to-right so "Face 1" is the leftmost one in the photo
+        const ordered = [...predictions].sort((a, b) => (a.box?.xMin ?? 0) - (b.box?.xMin ?? 0));
+        setFaces(ordered);
+        setSelectedFace(0);
+        setLandmarkOverrides({});
+        setTrichionOverrides({});
+        setManualMidlines({});
+        setNoFaceFound(ordered.length === 0);
 
         // populate some sensible default points (lips) if there are no points yet
-        if ((!points || points.length === 0) && mesh && mesh.length > 0) {
-          const lipsIndices = [13, 14, 78, 308];
-          const defaultPoints = lipsIndices
-            .map((i) => {
-              const p = mesh && mesh[i];
-              if (!p) return null;
-              return { id: nanoid(), x: p[0], y: p[1], product: "", dose: "" };
-            })
-            .filter(Boolean) as AnnotationPoint[];
-          setPoints(defaultPoints);
+        if (pointsRef.current.length === 0 && ordered.length > 0) {
+          setPoints(defaultPointsFor(ordered[0].landmarks));
+          setPointsAreDefaults(true);
         }
       } catch (err) {
+        if (err instanceof DetectionCancelledError) return;
+        setDetectProgress(null);
         console.error("detectOnce error:", err);
       }
     }
@@ -4228,25 +4288,60 @@ export default function FaceCanvas(): JSX.Element {
     detectOnce();
 
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [detector, imgEl, imageFit]); // re-run when imageFit is set
+  }, [detector, imgEl, detectMaxSide]);
+
+  // everything below reads the corrected mesh; the raw detection stays untouched in `faces`
+  const rawLandmarks = faces[selectedFace]?.landmarks ?? EMPTY_MESH;
+  const faceOverrides = landmarkOverrides[selectedFace];
+  // memoised so the heavier derived geometry (depth triangulation) can key on it
+  const landmarks = useMemo(() => applyLandmarkOverrides(rawLandmarks, faceOverrides), [rawLandmarks, faceOverrides]);
+  const overrideCount = faceOverrides ? Object.keys(faceOverrides).length : 0;
+
+  function overrideLandmark(idx: number, pos: Vec2) {
+    const raw = rawLandmarks[idx];
+    if (!raw) return;
+    setLandmarkOverrides((all) => ({ ...all, [selectedFace]: { ...all[selectedFace], [idx]: [pos.x, pos.y, raw[2]] } }));
+  }
 
-  // keep stage size in sync with imageFit whenever imageFit changes
-  useEffect(() => {
-    if (imageFit) {
-      setStageSize({ width: imageFit.width, height: imageFit.height });
-    }
-  }, [imageFit]);
+  function resetLandmark(idx?: number) {
+    setLandmarkOverrides((all) => {
+      if (idx === undefined) return { ...all, [selectedFace]: {} };
+      const rest = { ...all[selectedFace] };
+      delete rest[idx];
+      return { ...all, [selectedFace]: rest };
+    });
+  }
+  const faceMeta = faces[selectedFace] ?? null;
+
+  // registry names whose indices the detected mesh doesn't have (e.g. iris points without refinement)
+  const registryCheck = rawLandmarks.length > 0 ? validateRegistry(rawLandmarks.length) : null;
+
+  // image px -> face frame (eye-line horizontal); used for face-aligned guides and level mode
+  const faceLevel = levelAffine(landmarks) ?? IDENTITY;
+
+  // image px <-> stage px; the stage is sized to hold the (possibly rotated) image
+  const layout = imgEl
+    ? layoutView(imgEl.naturalWidth, imgEl.naturalHeight, levelMode ? faceLevel : IDENTITY, DEFAULT_STAGE_WIDTH, DEFAULT_STAGE_HEIGHT)
+    : null;
+  const view = layout?.view ?? makeViewTransform(IDENTITY);
+  const stageSize = layout ? { width: layout.width, height: layout.height } : { width: DEFAULT_STAGE_WIDTH, height: DEFAULT_STAGE_HEIGHT };
+  const toStage = (p: Vec2) => imageToStage(view, p);
+  const imageCenter = stageToImage(view, { x: stageSize.width / 2, y: stageSize.height / 2 });
 
   function onAddPoint() {
-    setPoints((p) => [...p, { id: nanoid(), x: (imageFit?.width ?? stageSize.width) / 2, y: (imageFit?.height ?? stageSize.height) / 2, product: "", dose: "" }]);
+    setPoints((p) => [...p, { id: nanoid(), x: imageCenter.x, y: imageCenter.y, product: "", dose: "" }]);
+    setPointsAreDefaults(false);
   }
 
   function onExport() {
     if (!stageRef.current) return;
+    const wasLevel = levelMode;
+    const wantLevel = exportOrientation === "shown" ? levelMode : exportOrientation === "levelled";
     try {
-      // @ts-ignore (kept intentionally)
+      // re-render synchronously in the requested orientation, snapshot, then restore
+      if (wantLevel !== wasLevel) flushSync(() => setLevelMode(wantLevel));
       const uri = stageRef.current.toDataURL({ pixelRatio: 2 });
       const link = document.createElement("a");
       link.download = `face_map_${Date.now()}.png`;
@@ -4257,177 +4352,516 @@ export default function FaceCanvas(): JSX.Element {
     } catch (err) {
       console.error("Export error:", err);
       alert("Export failed (canvas may be tainted). Make sure image is loaded from same origin or crossOrigin='anonymous'.");
+    } finally {
+      if (wantLevel !== wasLevel) flushSync(() => setLevelMode(wasLevel));
+    }
+  }
+
+  function onExportSession() {
+    // mm per px for the list-valued lengths; null while uncalibrated
+    const k = calibration.mmPerPx;
+    const session: SessionExport = {
+      version: SESSION_VERSION,
+      exportedAt: new Date().toISOString(),
+      image: imgEl ? { name: file?.name ?? null, width: imgEl.naturalWidth, height: imgEl.naturalHeight } : null,
+      calibration,
+      headPose,
+      landmarkOverrides: faceOverrides ?? {},
+      midline: midlineEndpoints
+        ? { mode: chosenMidline ? midlineMode : "bounding-box", line: midlineEndpoints, residual: midlineFit }
+        : null,
+      thirds: thirds
+        ? {
+            trichion: thirds.trichion,
+            trichionSource: thirds.trichionSource,
+            heightsPx: thirds.heights,
+            heightsMm: k === null ? null : [thirds.heights[0] * k, thirds.heights[1] * k, thirds.heights[2] * k],
+            proportions: thirds.proportions,
+          }
+        : null,
+      proportions: {
+        fifths: fifths
+          ? {
+              widthsPx: fifths.widths,
+              widthsMm: k === null ? null : fifths.widths.map((w) => w * k),
+              proportions: fifths.proportions,
+            }
+          : null,
+        phi: phi ? { fitErrorPct: phi.fitErrorPct, ratios: phi.ratios } : null,
+      },
+      lips: lips ? { ideals: lipIdeals, metrics: lips.metrics } : null,
+      nose: nose
+        ? {
+            alarWidthPx: nose.alarWidthPx,
+            alarWidthMm: toMm(nose.alarWidthPx, calibration),
+            intercanthalPx: nose.intercanthalPx,
+            intercanthalMm: toMm(nose.intercanthalPx, calibration),
+            tipDeviationPx: nose.tipDeviationPx,
+            tipDeviationMm: toMm(nose.tipDeviationPx, calibration),
+            metrics: nose.metrics,
+          }
+        : null,
+      periorbital: periorbital ? periorbitalSummary(periorbital, calibration) : null,
+      midface: midface ? midfaceSummary(midface, calibration) : null,
+      lowerFace: lowerFace
+        ? {
+            gonion: lowerFace.gonion,
+            bigonialPx: lowerFace.bigonialPx,
+            bigonialMm: toMm(lowerFace.bigonialPx, calibration),
+            chinWidthPx: lowerFace.chinWidthPx,
+            chinWidthMm: toMm(lowerFace.chinWidthPx, calibration),
+            bizygomaticPx: lowerFace.bizygomaticPx,
+            bizygomaticMm: lowerFace.bizygomaticPx === null ? null : toMm(lowerFace.bizygomaticPx, calibration),
+            taperRatio: lowerFace.taperRatio,
+            jawToCheekRatio: lowerFace.jawToCheekRatio,
+            gonialAngleDeg: lowerFace.gonialAngleDeg,
+          }
+        : null,
+      faceShape: faceShape
+        ? {
+            shape: faceShape.shape,
+            rules: faceShapeRules,
+            ratios: faceShape.ratios,
+            widthsPx: faceShape.widthsPx,
+            widthsMm:
+              k === null
+                ? null
+                : {
+                    forehead: faceShape.widthsPx.forehead * k,
+                    cheekbone: faceShape.widthsPx.cheekbone * k,
+                    jaw: faceShape.widthsPx.jaw * k,
+                    length: faceShape.widthsPx.length * k,
+                  },
+            trichionEstimated: faceShape.trichionEstimated,
+            scores: faceShape.scores.map((s) => ({ shape: s.shape, score: s.score })),
+          }
+        : null,
+      symmetry: symmetry ? { overallScore: symmetry.overall, regions: symmetry.regions } : null,
+      depth: depthSites ? { sites: depthSites } : null,
+      points: points.map((p) => {
+        const off = pointOffsets.find((o) => o.id === p.id);
+        return {
+          id: p.id,
+          x: p.x,
+          y: p.y,
+          product: p.product,
+          dose: p.dose,
+          note: p.note,
+          midlineSide: sideLabel(off?.side ?? 0) as "L" | "R" | "C",
+          midlineOffsetPx: off?.dist ?? 0,
+          midlineOffsetMm: toMm(off?.dist ?? 0, calibration),
+          location: pointLocations[p.id] ?? [],
+        };
+      }),
+      measurements: measurements.map((m) => {
+        const val = measurementValue(m, calibration);
+        return {
+          id: m.id,
+          kind: m.kind,
+          label: m.label,
+          points: m.points,
+          value: val?.value ?? null,
+          valueMm: val?.valueMm ?? null,
+          unit: val?.unit ?? null,
+          depthProfile: depthProfiles[m.id] ? { reliefPx: depthProfiles[m.id].reliefPx, samples: depthProfiles[m.id].samples } : undefined,
+        };
+      }),
+    };
+    downloadJson(`face_session_${Date.now()}.json`, session);
+  }
+
+  // ---------- MANUAL ANCHORS ----------
+  // only real failures offer the manual fallback; a detector that is still loading is not one
+  const detectionUnavailable =
+    detectorInitFailed || backendStatus.state === "failed" || modelStatus.state === "missing" || modelStatus.state === "failed";
+  const nextAnchor = ANCHORS.find((a) => !anchors[a.id]) ?? null;
+
+  function startAnchorMode() {
+    setAnchors({});
+    setAnchorMode(true);
+  }
+
+  function onStageClick() {
+    if (!stageRef.current) return;
+    const pos = stageRef.current.getPointerPosition();
+    if (!pos) return;
+    if (measureTool) {
+      addMeasurePoint(stageToImage(view, pos));
+      return;
+    }
+    if (!anchorMode || !nextAnchor) return;
+    const next = { ...anchors, [nextAnchor.id]: stageToImage(view, pos) };
+    setAnchors(next);
+
+    const mesh = fitAnchorMesh(next);
+    if (!mesh) return;
+    setFaces([{ landmarks: mesh, box: landmarkBounds(mesh), score: null, meshVersion: "manual-anchors" }]);
+    setSelectedFace(0);
+    setLandmarkOverrides({});
+    setTrichionOverrides({});
+    setManualMidlines({});
+    setAnchorMode(false);
+    if (points.length === 0 || pointsAreDefaults) {
+      setPoints(defaultPointsFor(mesh));
+      setPointsAreDefaults(true);
+    }
+  }
+
+  function undoAnchor() {
+    const placed = ANCHORS.filter((a) => anchors[a.id]);
+    if (placed.length === 0) return;
+    const rest = { ...anchors };
+    delete rest[placed[placed.length - 1].id];
+    setAnchors(rest);
+  }
+
+  // switch which face drives landmarks / overlays; untouched default points follow the face
+  function selectFace(idx: number) {
+    if (idx === selectedFace || !faces[idx]) return;
+    setSelectedFace(idx);
+    if (pointsAreDefaults || points.length === 0) {
+      setPoints(defaultPointsFor(faces[idx].landmarks));
+      setPointsAreDefaults(true);
     }
   }
 
   // reference calculations
+  // midline: two-point, robust fit through the midsagittal landmarks, or hand-drawn; bounding-box centre as a last resort
+  const twoPointLine = twoPointMidline(landmarks);
+  const fittedLine = fitMidline(landmarks);
+  const manualLine = manualMidlines[selectedFace] ?? null;
+  const chosenMidline =
+    midlineMode === "manual" ? (manualLine ?? fittedLine ?? twoPointLine) : midlineMode === "fitted" ? (fittedLine ?? twoPointLine) : twoPointLine;
   const midlineEndpoints =
-    landmarks.length > 152 && landmarks[10] && landmarks[152]
-      ? { a: { x: landmarks[10][0], y: landmarks[10][1] }, b: { x: landmarks[152][0], y: landmarks[152][1] } }
-      : (() => {
-          if (!landmarks || landmarks.length === 0) return null;
-          let minY = Infinity,
-            maxY = -Infinity;
-          let minX = Infinity,
-            maxX = -Infinity;
-          for (const lm of landmarks) {
-            if (!lm) continue;
-            const x = lm[0],
-              y = lm[1];
-            if (x < minX) minX = x;
-            if (x > maxX) maxX = x;
-            if (y < minY) minY = y;
-            if (y > maxY) maxY = y;
-          }
-          const cx = (minX + maxX) / 2;
-          return { a: { x: cx, y: minY }, b: { x: cx, y: maxY } };
-        })();
+    chosenMidline ??
+    (() => {
+      if (!landmarks || landmarks.length === 0) return null;
+      let minY = Infinity,
+        maxY = -Infinity;
+      let minX = Infinity,
+        maxX = -Infinity;
+      for (const lm of landmarks) {
+        if (!lm) continue;
+        const x = lm[0],
+          y = lm[1];
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+      const cx = (minX + maxX) / 2;
+      return { a: { x: cx, y: minY }, b: { x: cx, y: maxY } };
+    })();
 
-  const eyeLine =
-    landmarks.length > 263 && landmarks[33] && landmarks[263]
-      ? { l: { x: landmarks[33][0], y: landmarks[33][1] }, r: { x: landmarks[263][0], y: landmarks[263][1] } }
-      : null;
+  const midlineFit = midlineEndpoints ? midlineResidual(landmarks, midlineEndpoints) : null;
 
-  const thirdsYs = (() => {
-    if (!landmarks || landmarks.length === 0) return null;
-    let minY = Infinity,
-      maxY = -Infinity;
+  function changeMidlineMode(mode: MidlineMode) {
+    // start a hand-drawn midline from whatever is shown now
+    if (mode === "manual" && !manualMidlines[selectedFace] && midlineEndpoints) {
+      setManualMidlines((all) => ({ ...all, [selectedFace]: midlineEndpoints }));
+    }
+    setMidlineMode(mode);
+  }
+
+  function moveManualMidline(end: "a" | "b", p: Vec2) {
+    if (!midlineEndpoints) return;
+    setManualMidlines((all) => ({ ...all, [selectedFace]: { ...(all[selectedFace] ?? midlineEndpoints), [end]: p } }));
+  }
+
+  const eyeRight = getLandmark(landmarks, "exocanthion_right");
+  const eyeLeft = getLandmark(landmarks, "exocanthion_left");
+  const eyeLine = eyeRight && eyeLeft ? { l: { x: eyeRight[0], y: eyeRight[1] }, r: { x: eyeLeft[0], y: eyeLeft[1] } } : null;
+
+  // bilateral symmetry: right side mirrored across the midline onto the left
+  const symmetry = analyzeSymmetry(landmarks, midlineEndpoints);
+
+  // anatomical thirds (trichion–glabella–subnasale–menton), measured in the face frame
+  const trichionOverride = trichionOverrides[selectedFace] ?? null;
+  const thirds = facialThirds(landmarks, faceLevel, trichionOverride);
+  // horizontal extent of the face in the face frame, so the guides stay parallel to the eye-line
+  const faceXRange = (() => {
     let minX = Infinity,
       maxX = -Infinity;
     for (const lm of landmarks) {
       if (!lm) continue;
-      const x = lm[0],
-        y = lm[1];
+      const { x } = applyAffine(faceLevel, { x: lm[0], y: lm[1] });
       if (x < minX) minX = x;
       if (x > maxX) maxX = x;
-      if (y < minY) minY = y;
-      if (y > maxY) maxY = y;
     }
-    const h = maxY - minY;
-    if (!isFinite(h) || h <= 0) return null;
-    const y1 = minY + h / 3;
-    const y2 = minY + (2 * h) / 3;
-    return { y1, y2, xmin: minX, xmax: maxX };
+    return isFinite(minX) && maxX > minX ? { xmin: minX, xmax: maxX } : null;
   })();
+  // thirds guide segments (trichion, glabella, subnasale, menton) back in image px
+  const thirdsSegments =
+    thirds && faceXRange
+      ? thirds.levels.map(({ name, y }) => {
+          const fromFace = invertAffine(faceLevel);
+          return { name, a: applyAffine(fromFace, { x: faceXRange.xmin, y }), b: applyAffine(fromFace, { x: faceXRange.xmax, y }) };
+        })
+      : null;
+
+  // horizontal fifths (face frame) and the phi mask fitted by similarity transform
+  const fifths = facialFifths(landmarks, faceLevel);
+  const fifthsSegments = fifths
+    ? fifths.xs.map((x) => {
+        const fromFace = invertAffine(faceLevel);
+        return { a: applyAffine(fromFace, { x, y: fifths.yTop }), b: applyAffine(fromFace, { x, y: fifths.yBottom }) };
+      })
+    : null;
+  const phi = phiAnalysis(landmarks, thirds?.trichion ?? null);
+
+  const lips = analyzeLips(landmarks, faceLevel, eyeLineAngle(landmarks), lipIdeals);
+  const nose = analyzeNose(landmarks, faceLevel, midlineEndpoints);
+  const periorbital = analyzePeriorbital(landmarks, faceLevel);
+  const midface = analyzeMidface(landmarks, faceLevel);
+  const lowerFace = analyzeLowerFace(landmarks, faceLevel, poseTolerance);
+  const faceShape = classifyFaceShape(landmarks, faceLevel, thirds, lowerFace, faceShapeRules);
+
+  // depth from the mesh z; only triangulated when the overlay or a profile line needs it.
+  // Memoised: the triangulation is O(n²) and would otherwise rerun on every drag frame and keystroke.
+  const profileMeasurements = useMemo(() => measurements.filter((m) => m.kind === "profile"), [measurements]);
+  const needDepthMesh = showDepth || profileMeasurements.length > 0;
+  const depthMesh = useMemo(() => (needDepthMesh ? buildDepthMesh(landmarks) : null), [needDepthMesh, landmarks]);
+  const depthProfiles = useMemo<Record<string, DepthProfile>>(
+    () =>
+      depthMesh
+        ? Object.fromEntries(profileMeasurements.map((m) => [m.id, depthProfile(depthMesh, landmarks, m.points[0], m.points[1])]))
+        : {},
+    [depthMesh, landmarks, profileMeasurements]
+  );
+  // overlay geometry in image px; mapped to the stage below
+  const depthTriangles = useMemo(
+    () =>
+      showDepth && depthMesh && depthStyle === "ramp"
+        ? depthMesh.triangles.map((tri) => ({
+            pts: tri.map((i) => ({ x: landmarks[i][0], y: landmarks[i][1] })),
+            t: projectionT(depthMesh, tri.reduce((s, i) => s + (landmarks[i][2] ?? 0), 0) / 3),
+          }))
+        : [],
+    [showDepth, depthMesh, depthStyle, landmarks]
+  );
+  const depthIsolines = useMemo(
+    () =>
+      showDepth && depthMesh && depthStyle === "contours"
+        ? depthContours(depthMesh, landmarks).flatMap((c) => c.segments.map((seg) => ({ t: c.t, pts: seg })))
+        : [],
+    [showDepth, depthMesh, depthStyle, landmarks]
+  );
+  const depthSites = siteProjections(landmarks);
+
+  function moveTrichion(p: Vec2) {
+    setTrichionOverrides((all) => ({ ...all, [selectedFace]: p }));
+  }
+
+  function resetTrichion() {
+    setTrichionOverrides((all) => {
+      const rest = { ...all };
+      delete rest[selectedFace];
+      return rest;
+    });
+  }
+
+  // head pose: midline offsets are only meaningful on a roughly frontal, level face
+  const headPose = estimateHeadPose(landmarks);
+  const poseIssues = poseWarnings(headPose, poseTolerance);
+  const offsetsUnreliable = poseIssues.length > 0;
+
+  // px -> mm
+  const calibration = resolveCalibration(landmarks, calibrationSource, ipdMm);
 
   // offsets
   const pointOffsets = points.map((pt) => {
     if (!midlineEndpoints) return { id: pt.id, dist: 0, side: 0 };
     const { a, b } = midlineEndpoints;
     const { dist, side } = perpDistanceToLine({ x: pt.x, y: pt.y }, a, b);
-    return { id: pt.id, dist: Math.round(dist), side: side };
+    return { id: pt.id, dist, side: side };
   });
+  // landmark-relative description of every point (face frame, calibrated units when available)
+  const pointLocations: Record<string, RelativeLocation[]> = Object.fromEntries(
+    points.map((pt) => [pt.id, landmarks.length > 0 ? describePoint(pt, landmarks, faceLevel, midlineEndpoints, calibration) : []])
+  );
+
+  // patient's side, as in pointLocation and symmetry: side > 0 lies on the image left, which is the patient's right
   function sideLabel(side: number) {
     if (side === 0) return "C";
-    return side > 0 ? "L" : "R";
+    return side > 0 ? "R" : "L";
   }
 
   // ---------- PRESETS ----------
   const presetTemplates = {
-    lips: { indices: [13, 14, 78, 308], label: "Lips" },
-    nasolabial: { indices: [50, 280, 146, 376], label: "Nasolabial" },
-    marionette: { indices: [57, 287, 164, 393], label: "Marionette" },
-  } as const;
+    lips: { landmarks: ["stomion_superius", "stomion_inferius", "inner_lip_corner_right", "inner_lip_corner_left"], label: "Lips" },
+    // top of each fold beside the ala, bottom lateral to the commissure
+    nasolabial: { landmarks: ["paranasal_right", "paranasal_left", "perioral_right", "perioral_left"], label: "Nasolabial" },
+    // from each commissure down to the jawline beside the chin
+    marionette: { landmarks: ["cheilion_right", "cheilion_left", "chin_contour_right_2", "chin_contour_left_2"], label: "Marionette" },
+    // radix, mid-dorsum, tip and nasal spine for a non-surgical rhinoplasty
+    nose: { landmarks: ["nasion", "nasal_dorsum_upper", "pronasale", "subnasale"], label: "Nose" },
+  } satisfies Record<string, { landmarks: LandmarkName[]; label: string }>;
 
   function addPreset(name: keyof typeof presetTemplates) {
     const tpl = presetTemplates[name];
     if (!landmarks || landmarks.length === 0) {
-      const cx = stageSize.width / 2;
-      const cy = stageSize.height / 2;
+      const cx = imageCenter.x;
+      const cy = imageCenter.y;
       const fallbackPoints: AnnotationPoint[] = [-1, 0, 1, 2].map((i) => ({
         id: nanoid(),
-        x: cx + (i - 1.5) * 12,
-        y: cy + (i - 1.5) * 10,
+        x: cx + ((i - 1.5) * 12) / view.scale,
+        y: cy + ((i - 1.5) * 10) / view.scale,
         product: "",
         dose: "",
       }));
       setPoints((p) => [...p, ...fallbackPoints]);
+      setPointsAreDefaults(false);
       return;
     }
 
     const newPts: AnnotationPoint[] = [];
-    for (const idx of tpl.indices) {
+    for (const idx of lmIndices(tpl.landmarks)) {
       const lm = landmarks[idx];
       if (lm && typeof lm[0] === "number") {
         newPts.push({ id: nanoid(), x: lm[0], y: lm[1], product: "", dose: "" });
       } else {
-        if (midlineEndpoints && thirdsYs) {
+        if (midlineEndpoints && thirdsSegments) {
           const cx = (midlineEndpoints.a.x + midlineEndpoints.b.x) / 2;
-          const dx = (newPts.length % 2 === 0) ? -12 : 12;
-          const y = newPts.length < 2 ? thirdsYs.y1 : thirdsYs.y2;
+          const dx = ((newPts.length % 2 === 0) ? -12 : 12) / view.scale;
+          // upper pair at glabella level, lower pair at subnasale level
+          const seg = newPts.length < 2 ? thirdsSegments[1] : thirdsSegments[2];
+          const y = (seg.a.y + seg.b.y) / 2;
           newPts.push({ id: nanoid(), x: cx + dx, y, product: "", dose: "" });
         } else {
-          newPts.push({ id: nanoid(), x: stageSize.width / 2 + (newPts.length - 1) * 10, y: stageSize.height / 2, product: "", dose: "" });
+          newPts.push({ id: nanoid(), x: imageCenter.x + ((newPts.length - 1) * 10) / view.scale, y: imageCenter.y, product: "", dose: "" });
         }
       }
     }
     setPoints((p) => [...p, ...newPts]);
+    setPointsAreDefaults(false);
+  }
+
+  // tear-trough targets follow the traced groove, so they come from the midface analysis rather than fixed landmarks
+  function addTearTroughPreset() {
+    if (!midface) return;
+    const newPts: AnnotationPoint[] = tearTroughPreset(midface).map(({ point, note }) => ({
+      id: nanoid(),
+      x: point.x,
+      y: point.y,
+      product: "",
+      dose: "",
+      note,
+    }));
+    setPoints((p) => [...p, ...newPts]);
+    setPointsAreDefaults(false);
   }
 
   // update point metadata helpers
-  function updatePointMeta(id: string, data: Partial<Pick<AnnotationPoint, "product" | "dose" | "x" | "y">>) {
+  function updatePointMeta(id: string, data: Partial<Pick<AnnotationPoint, "product" | "dose" | "note" | "x" | "y">>) {
     setPoints((prev) => prev.map((pt) => (pt.id === id ? { ...pt, ...data } : pt)));
+    setPointsAreDefaults(false);
   }
 
   // delete
   function removePoint(id: string) {
     setPoints((ps) => ps.filter((p) => p.id !== id));
+    setPointsAreDefaults(false);
   }
 
-  // snapping helper
+  // snapping helper (radius in stage px, compared in image px)
   function snapPointToNearestLandmark(id: string, radius = 12) {
     const pt = points.find((p) => p.id === id);
     if (!pt || !landmarks || landmarks.length === 0) return;
-    let best: { idx: number; dist: number } | null = null;
-    for (let i = 0; i < landmarks.length; i++) {
-      const lm = landmarks[i];
-      if (!lm) continue;
-      const dx = lm[0] - pt.x;
-      const dy = lm[1] - pt.y;
-      const d = Math.hypot(dx, dy);
-      if (d <= radius && (!best || d < best.dist)) best = { idx: i, dist: d };
-    }
-    if (best) {
-      const lm = landmarks[best.idx];
-      updatePointMeta(id, { x: lm[0], y: lm[1] });
+    const hit = nearestLandmark(landmarks, pt, radius / view.scale);
+    if (hit) updatePointMeta(id, hit.point);
+  }
+
+  // ---------- MEASUREMENTS ----------
+  // measurement endpoints snap like annotation points (12 stage px)
+  function snapMeasurePoint(p: Vec2, radius = 12): Vec2 {
+    if (!snapMeasurements || landmarks.length === 0) return p;
+    return nearestLandmark(landmarks, p, radius / view.scale)?.point ?? p;
+  }
+
+  function addMeasurePoint(p: Vec2) {
+    if (!measureTool) return;
+    const draft = [...measureDraft, snapMeasurePoint(p)];
+    const max = measurementKind(measureTool).maxPoints;
+    if (max !== null && draft.length >= max) {
+      setMeasurements((ms) => [...ms, { id: nanoid(), kind: measureTool, points: draft }]);
+      setMeasureDraft([]);
+    } else {
+      setMeasureDraft(draft);
     }
   }
 
+  // area polygons are open-ended; close them explicitly
+  function finishMeasurement() {
+    if (!measureTool || measureDraft.length < measurementKind(measureTool).minPoints) return;
+    setMeasurements((ms) => [...ms, { id: nanoid(), kind: measureTool, points: measureDraft }]);
+    setMeasureDraft([]);
+  }
+
+  function moveMeasurePoint(id: string, i: number, p: Vec2) {
+    const snapped = snapMeasurePoint(p);
+    setMeasurements((ms) => ms.map((m) => (m.id === id ? { ...m, points: m.points.map((q, j) => (j === i ? snapped : q)) } : m)));
+  }
+
+  function updateMeasurementLabel(id: string, label: string) {
+    setMeasurements((ms) => ms.map((m) => (m.id === id ? { ...m, label } : m)));
+  }
+
+  function removeMeasurement(id: string) {
+    setMeasurements((ms) => ms.filter((m) => m.id !== id));
+  }
+
   // ---------- MUSCLES (more accurate rendering) ----------
-  // Each muscle defines an array of landmark indices that trace the muscle boundary or centerline.
-  // We attempt to build a smooth outer boundary from those indices; then we draw:
+  // Each muscle defines an array of named landmarks that trace the muscle boundary or centerline.
+  // We attempt to build a smooth outer boundary from those points; then we draw:
   // - a smooth filled shape (tensioned Line closed)
   // - a faint outer glow (lighter fill)
   // - short fiber strokes sampled along the centerline to suggest fiber direction
 
-  // muscle definitions (indices are approximate MediaPipe FaceMesh indices)
-  const muscleDefs: { id: string; label: string; boundary: number[]; centerline?: number[]; color: string }[] = [
+  // muscle definitions (approximate; see the "approx" flags in the landmark registry)
+  const muscleDefs: { id: string; label: string; boundary: LandmarkName[]; centerline?: LandmarkName[]; color: string }[] = [
     {
       id: "orbicularis_oris",
       label: "Orbicularis Oris",
-      boundary: [61, 146, 91, 181, 84, 17, 314, 405, 321, 375, 291, 61], // outer ring
-      centerline: [13, 78, 14], // approximate upper-mid-lower center points
+      // outer ring
+      boundary: [
+        "cheilion_right",
+        "lower_lip_right_1",
+        "lower_lip_right_2",
+        "lower_lip_right_3",
+        "lower_lip_right_4",
+        "labrale_inferius",
+        "lower_lip_left_4",
+        "lower_lip_left_3",
+        "lower_lip_left_2",
+        "lower_lip_left_1",
+        "cheilion_left",
+        "cheilion_right",
+      ],
+      // oral fissure
+      centerline: ["inner_lip_corner_right", "stomion_superius", "inner_lip_corner_left"],
       color: "#b4006a",
     },
     {
+      // commissure (modiolus) up to the zygomatic body
       id: "zygomaticus_major_l",
       label: "Zygomaticus Major (L)",
-      boundary: [61, 226, 354, 334, 293], // cheek curve left
-      centerline: [61, 226, 345],
+      boundary: ["cheilion_left", "malar_left", "zygion_left", "cheek_contour_left", "perioral_left", "cheilion_left"],
+      centerline: ["cheilion_left", "malar_left", "zygion_left"],
       color: "#9b2a8a",
     },
     {
       id: "zygomaticus_major_r",
       label: "Zygomaticus Major (R)",
-      boundary: [291, 446, 323, 361, 291], // cheek curve right
-      centerline: [291, 446, 323],
+      boundary: ["cheilion_right", "malar_right", "zygion_right", "cheek_contour_right", "perioral_right", "cheilion_right"],
+      centerline: ["cheilion_right", "malar_right", "zygion_right"],
       color: "#9b2a8a",
     },
     {
+      // chin pad between the mentolabial sulcus and menton, either side of the midline
       id: "mentalis",
       label: "Mentalis",
-      boundary: [152, 148, 176, 149, 150, 152],
-      centerline: [152, 148, 176],
+      boundary: ["mentolabial_sulcus", "chin_contour_right_2", "menton", "chin_contour_left_2", "mentolabial_sulcus"],
+      centerline: ["mentolabial_sulcus", "pogonion", "menton"],
       color: "#7f2266",
     },
   ];
@@ -4435,33 +4869,73 @@ export default function FaceCanvas(): JSX.Element {
   // compute muscle render shapes (only when landmarks present)
   const musclesToRender = muscleDefs
     .map((m) => {
-      const boundaryPts = indicesToXY(m.boundary, landmarks);
+      const boundaryPts = namesToXY(m.boundary, landmarks)?.map(toStage);
       if (!boundaryPts) return null;
-      const centerPts = m.centerline ? indicesToXY(m.centerline, landmarks) : null;
+      const centerPts = m.centerline ? namesToXY(m.centerline, landmarks)?.map(toStage) ?? null : null;
       return { ...m, boundaryPts, centerPts };
     })
     .filter(Boolean) as Array<
     { id: string; label: string; boundaryPts: { x: number; y: number }[]; centerPts?: { x: number; y: number }[]; color: string }
-  >;
-
-  // ---------- VESSELS (unchanged approach) ----------
-  const vesselDefs = [
-    { id: "facial_artery_l", label: "Facial artery (L)", indices: [234, 93, 132, 58, 0, 1, 2] },
-    { id: "facial_artery_r", label: "Facial artery (R)", indices: [454, 323, 361, 288, 267, 266, 265] },
-    { id: "angular_l", label: "Angular (L)", indices: [2, 98, 4, 5] },
-    { id: "angular_r", label: "Angular (R)", indices: [265, 362, 257, 256] },
-    { id: "sup_labial", label: "Superior labial", indices: [61, 62, 63, 64, 65, 66] },
-    { id: "inf_labial", label: "Inferior labial", indices: [291, 292, 293, 294, 295, 296] },
+  >;
+
+  // ---------- VESSELS (unchanged approach) ----------
+  // facial artery: crosses the mandible in front of the masseter, passes lateral to the commissure and runs up the
+  // nasolabial fold to the alar base; the angular artery continues along the nasal sidewall to the medial canthus
+  const vesselDefs: { id: string; label: string; landmarks: LandmarkName[] }[] = [
+    { id: "facial_artery_l", label: "Facial artery (L)", landmarks: ["jaw_contour_left", "perioral_left", "paranasal_left", "alar_left"] },
+    { id: "facial_artery_r", label: "Facial artery (R)", landmarks: ["jaw_contour_right", "perioral_right", "paranasal_right", "alar_right"] },
+    { id: "angular_l", label: "Angular (L)", landmarks: ["alar_left", "paranasal_left", "endocanthion_left"] },
+    { id: "angular_r", label: "Angular (R)", landmarks: ["alar_right", "paranasal_right", "endocanthion_right"] },
+    // labial arteries branch off near the commissures and run along the lips, meeting at the midline
+    {
+      id: "sup_labial",
+      label: "Superior labial",
+      landmarks: ["cheilion_right", "cupid_bow_peak_right", "labrale_superius", "cupid_bow_peak_left", "cheilion_left"],
+    },
+    {
+      id: "inf_labial",
+      label: "Inferior labial",
+      landmarks: ["cheilion_right", "lower_lip_right_3", "labrale_inferius", "lower_lip_left_3", "cheilion_left"],
+    },
   ];
 
   const vesselShapes = vesselDefs
     .map((v) => {
-      const pts = indicesToXY(v.indices, landmarks);
+      const pts = namesToXY(v.landmarks, landmarks)?.map(toStage);
       if (!pts) return null;
       return { ...v, pts };
     })
     .filter(Boolean) as Array<{ id: string; label: string; pts: { x: number; y: number }[] }>;
 
+  // stage-space copies of the reference lines (everything above is in image px)
+  const stageMidline = midlineEndpoints ? { a: toStage(midlineEndpoints.a), b: toStage(midlineEndpoints.b) } : null;
+  const stageEyeLine = eyeLine ? { l: toStage(eyeLine.l), r: toStage(eyeLine.r) } : null;
+  const stageThirds = thirdsSegments ? thirdsSegments.map((seg) => ({ name: seg.name, a: toStage(seg.a), b: toStage(seg.b) })) : null;
+  const stageTrichion = thirds ? toStage(thirds.trichion) : null;
+  const stageFifths = fifthsSegments ? fifthsSegments.map((seg) => ({ a: toStage(seg.a), b: toStage(seg.b) })) : null;
+  const stagePhiLines = phi ? phi.lines.map((line) => line.map(toStage)) : null;
+
+  // depth overlay: triangles tinted by mean projection, or iso-depth contour segments
+  const stageDepthTriangles = depthTriangles.map((tri) => ({ t: tri.t, pts: tri.pts.map(toStage) }));
+  const stageDepthContours = depthIsolines.map((seg) => ({ t: seg.t, pts: seg.pts.map(toStage) }));
+
+  // symmetry heatmap: one hull per region and side, tinted by the region's mean score
+  const symmetryHulls = symmetry
+    ? symmetry.regions.flatMap((r) => {
+        const regionPairs = symmetry.pairs.filter((p) => p.region === r.region);
+        return (["right", "left"] as const).map((side) => ({
+          key: `${r.region}-${side}`,
+          score: r.meanScore,
+          pts: convexHull(
+            regionPairs.map((p) => {
+              const lm = landmarks[p[side]];
+              return toStage({ x: lm[0], y: lm[1] });
+            })
+          ),
+        }));
+      })
+    : [];
+
   // ---------- RENDER ----------
   return (
     <div style={{ border: "1px solid #ddd", padding: 12, borderRadius: 8, maxWidth: 1300 }}>
@@ -4473,24 +4947,84 @@ export default function FaceCanvas(): JSX.Element {
             if (!e.target.files?.[0]) return;
             setFile(e.target.files[0]);
             setPoints([]);
-            setLandmarks([]);
-            setImageFit(null);
+            setFaces([]);
+            setLandmarkOverrides({});
+            setTrichionOverrides({});
+            setManualMidlines({});
+            setMeasurements([]);
+            setMeasureDraft([]);
+            setNoFaceFound(false);
+            setAnchorMode(false);
+            setAnchors({});
+            setSelectedFace(0);
+            setPointsAreDefaults(false);
           }}
         />
+        <label style={{ fontSize: 13 }}>
+          Detect at{" "}
+          <select value={detectMaxSide} onChange={(e) => setDetectMaxSide(Number(e.target.value))}>
+            {DETECT_SIZE_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                {n === 0 ? "native" : `≤ ${n}px`}
+              </option>
+            ))}
+          </select>
+        </label>
         <button onClick={onAddPoint}>Add point</button>
         <button onClick={onExport}>Export PNG</button>
+        <select value={exportOrientation} onChange={(e) => setExportOrientation(e.target.value as typeof exportOrientation)}>
+          <option value="shown">as shown</option>
+          <option value="original">original orientation</option>
+          <option value="levelled">levelled</option>
+        </select>
+        <button onClick={onExportSession}>Export session</button>
+
+        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+          <strong>Measure:</strong>
+          <select
+            value={measureTool ?? "off"}
+            onChange={(e) => {
+              setMeasureTool(e.target.value === "off" ? null : (e.target.value as MeasurementKind));
+              setMeasureDraft([]);
+            }}
+          >
+            <option value="off">off</option>
+            {MEASUREMENT_KINDS.map((k) => (
+              <option key={k.id} value={k.id}>
+                {k.label}
+              </option>
+            ))}
+          </select>
+          <label style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={snapMeasurements} onChange={(e) => setSnapMeasurements(e.target.checked)} /> snap
+          </label>
+          {measureTool === "area" && measureDraft.length >= 3 ? <button onClick={finishMeasurement}>Close area</button> : null}
+          {measureDraft.length > 0 ? <button onClick={() => setMeasureDraft([])}>Cancel</button> : null}
+        </div>
 
         <div style={{ marginLeft: 8, display: "flex", gap: 6, alignItems: "center" }}>
           <strong>Presets:</strong>
           <button onClick={() => addPreset("lips")}>Lips</button>
           <button onClick={() => addPreset("nasolabial")}>Nasolabial</button>
           <button onClick={() => addPreset("marionette")}>Marionette</button>
+          <button onClick={() => addPreset("nose")}>Nose</button>
+          <button onClick={addTearTroughPreset} disabled={!midface}>
+            Tear trough
+          </button>
         </div>
 
         <div style={{ display: "flex", gap: 10, alignItems: "center", marginLeft: 8 }}>
           <label>
             <input type="checkbox" checked={showLandmarks} onChange={(e) => setShowLandmarks(e.target.checked)} /> Landmarks
           </label>
+          <label>
+            Edit{" "}
+            <select value={editLandmarks} onChange={(e) => setEditLandmarks(e.target.value as typeof editLandmarks)}>
+              <option value="off">off</option>
+              <option value="key">key landmarks</option>
+              <option value="all">all landmarks</option>
+            </select>
+          </label>
         </div>
 
         <div style={{ display: "flex", gap: 10, alignItems: "center", marginLeft: 8 }}>
@@ -4506,31 +5040,104 @@ export default function FaceCanvas(): JSX.Element {
           <label>
             <input type="checkbox" checked={showMidline} onChange={(e) => setShowMidline(e.target.checked)} /> Midline
           </label>
+          <select value={midlineMode} onChange={(e) => changeMidlineMode(e.target.value as MidlineMode)}>
+            <option value="two-point">two-point</option>
+            <option value="fitted">fitted</option>
+            <option value="manual">manual</option>
+          </select>
           <label>
             <input type="checkbox" checked={showEyeLine} onChange={(e) => setShowEyeLine(e.target.checked)} /> Eye-line
           </label>
           <label>
             <input type="checkbox" checked={showThirds} onChange={(e) => setShowThirds(e.target.checked)} /> Thirds
           </label>
+          <label>
+            <input type="checkbox" checked={showFifths} onChange={(e) => setShowFifths(e.target.checked)} /> Fifths
+          </label>
+          <label>
+            <input type="checkbox" checked={showPhiMask} onChange={(e) => setShowPhiMask(e.target.checked)} /> Phi mask
+          </label>
+          <label>
+            <input type="checkbox" checked={showLips} onChange={(e) => setShowLips(e.target.checked)} /> Lips
+          </label>
+          <label>
+            <input type="checkbox" checked={showNose} onChange={(e) => setShowNose(e.target.checked)} /> Nose
+          </label>
+          <label>
+            <input type="checkbox" checked={showPeriorbital} onChange={(e) => setShowPeriorbital(e.target.checked)} /> Periorbital
+          </label>
+          <label>
+            <input type="checkbox" checked={showMidface} onChange={(e) => setShowMidface(e.target.checked)} /> Tear trough
+          </label>
+          <label>
+            <input type="checkbox" checked={showJawline} onChange={(e) => setShowJawline(e.target.checked)} /> Jawline
+          </label>
+          <label>
+            <input type="checkbox" checked={showSymmetry} onChange={(e) => setShowSymmetry(e.target.checked)} /> Symmetry
+          </label>
+          <label>
+            <input type="checkbox" checked={showDepth} onChange={(e) => setShowDepth(e.target.checked)} /> Depth
+          </label>
+          <select value={depthStyle} onChange={(e) => setDepthStyle(e.target.value as "ramp" | "contours")}>
+            <option value="ramp">colour ramp</option>
+            <option value="contours">contours</option>
+          </select>
+          <label>
+            <input type="checkbox" checked={levelMode} onChange={(e) => setLevelMode(e.target.checked)} /> Level face
+          </label>
         </div>
       </div>
 
       <div style={{ display: "flex", gap: 12 }}>
         <div style={{ border: "1px solid #eee", padding: 6 }}>
-          <Stage width={stageSize.width} height={stageSize.height} ref={stageRef}>
+          <Stage width={stageSize.width} height={stageSize.height} ref={stageRef} onClick={onStageClick} onTap={onStageClick}>
             <Layer>
               {imgEl ? (
-                // @ts-ignore
-                <KonvaImageElement image={imgEl as any} x={0} y={0} width={stageSize.width} height={stageSize.height} />
+                <KonvaImageElement
+                  image={imgEl}
+                  width={imgEl.naturalWidth}
+                  height={imgEl.naturalHeight}
+                  {...affineToNodeProps(view.toStage)}
+                />
               ) : null}
             </Layer>
 
             <Layer>
+              {/* face boxes (click to pick which face drives the overlays) */}
+              {faces.length > 1
+                ? faces.map((f, idx) =>
+                    f.box ? (
+                      <Group key={`face-${idx}`} onClick={() => selectFace(idx)} onTap={() => selectFace(idx)}>
+                        <Rect
+                          x={toStage({ x: f.box.xMin, y: f.box.yMin }).x}
+                          y={toStage({ x: f.box.xMin, y: f.box.yMin }).y}
+                          width={f.box.width * view.scale}
+                          height={f.box.height * view.scale}
+                          rotation={affineToNodeProps(view.toStage).rotation}
+                          stroke={idx === selectedFace ? "rgba(255,165,0,0.95)" : "rgba(255,255,255,0.8)"}
+                          strokeWidth={idx === selectedFace ? 2 : 1}
+                          dash={idx === selectedFace ? undefined : [6, 4]}
+                          fill="rgba(0,0,0,0.001)"
+                        />
+                        <Text
+                          text={`Face ${idx + 1}`}
+                          x={toStage({ x: f.box.xMin, y: f.box.yMin }).x + 4}
+                          y={toStage({ x: f.box.xMin, y: f.box.yMin }).y - 16}
+                          fontSize={12}
+                          fill={idx === selectedFace ? "rgba(255,165,0,1)" : "#fff"}
+                        />
+                      </Group>
+                    ) : null
+                  )
+                : null}
+
               {/* landmarks */}
               {showLandmarks && landmarks.length > 0
-                ? landmarks.map((lm, idx) => (
-                    <Circle key={`lm-${idx}`} x={lm[0]} y={lm[1]} radius={1.2} fill="rgba(0,150,255,0.9)" />
-                  ))
+                ? landmarks.map((lm, idx) => {
+                    const sp = toStage({ x: lm[0], y: lm[1] });
+                    const fill = faceOverrides?.[idx] ? "rgba(255,120,0,0.95)" : "rgba(0,150,255,0.9)";
+                    return <Circle key={`lm-${idx}`} x={sp.x} y={sp.y} radius={faceOverrides?.[idx] ? 2 : 1.2} fill={fill} />;
+                  })
                 : null}
 
               {/* MUSCLES: smooth tensioned shapes + fiber strokes */}
@@ -4597,66 +5204,403 @@ export default function FaceCanvas(): JSX.Element {
                   );
                 })}
 
+              {/* depth shading (many small shapes, so they don't take part in hit testing) */}
+              {stageDepthTriangles.map((tri, k) => (
+                <Line key={`depth-tri-${k}`} points={flattenPts(tri.pts)} closed fill={depthColor(tri.t, 0.35)} listening={false} />
+              ))}
+              {stageDepthContours.map((seg, k) => (
+                <Line
+                  key={`depth-iso-${k}`}
+                  points={flattenPts(seg.pts)}
+                  stroke={depthColor(seg.t, 0.9)}
+                  strokeWidth={1.2}
+                  listening={false}
+                />
+              ))}
+
+              {/* symmetry heatmap */}
+              {showSymmetry && symmetry ? (
+                <>
+                  {symmetryHulls.map((h) =>
+                    h.pts.length >= 3 ? (
+                      <Line
+                        key={`sym-hull-${h.key}`}
+                        points={flattenPts(h.pts)}
+                        closed
+                        fill={heatColor(h.score, 0.22)}
+                        stroke={heatColor(h.score, 0.6)}
+                        strokeWidth={1}
+                      />
+                    ) : null
+                  )}
+                  {symmetry.pairs.flatMap((p) =>
+                    [p.right, p.left].map((idx) => {
+                      const lm = landmarks[idx];
+                      const sp = toStage({ x: lm[0], y: lm[1] });
+                      return <Circle key={`sym-${idx}`} x={sp.x} y={sp.y} radius={2.5} fill={heatColor(p.score, 0.95)} />;
+                    })
+                  )}
+                </>
+              ) : null}
+
               {/* midline / eyeline / thirds */}
-              {showMidline && midlineEndpoints ? (
+              {showMidline && stageMidline ? (
                 <>
                   <Line
-                    points={[midlineEndpoints.a.x, midlineEndpoints.a.y, midlineEndpoints.b.x, midlineEndpoints.b.y]}
+                    points={[stageMidline.a.x, stageMidline.a.y, stageMidline.b.x, stageMidline.b.y]}
                     stroke="rgba(255,0,0,0.85)"
                     strokeWidth={1.5}
                     dash={[6, 4]}
                   />
                   <Text
                     text="Midline"
-                    x={(midlineEndpoints.a.x + midlineEndpoints.b.x) / 2 + 6}
-                    y={(midlineEndpoints.a.y + midlineEndpoints.b.y) / 2 + 6}
+                    x={(stageMidline.a.x + stageMidline.b.x) / 2 + 6}
+                    y={(stageMidline.a.y + stageMidline.b.y) / 2 + 6}
                     fontSize={12}
                     fill="rgba(255,0,0,0.9)"
                   />
+                  {midlineMode === "manual"
+                    ? (["a", "b"] as const).map((end) => (
+                        <Circle
+                          key={`midline-${end}`}
+                          x={stageMidline[end].x}
+                          y={stageMidline[end].y}
+                          radius={6}
+                          fill="rgba(255,0,0,0.6)"
+                          stroke="#fff"
+                          strokeWidth={1}
+                          draggable
+                          onDragEnd={(e: KonvaDragEvent) => moveManualMidline(end, stageToImage(view, { x: e.target.x(), y: e.target.y() }))}
+                        />
+                      ))
+                    : null}
                 </>
               ) : null}
 
-              {showEyeLine && eyeLine ? (
+              {showEyeLine && stageEyeLine ? (
                 <>
                   <Line
-                    points={[eyeLine.l.x, eyeLine.l.y, eyeLine.r.x, eyeLine.r.y]}
+                    points={[stageEyeLine.l.x, stageEyeLine.l.y, stageEyeLine.r.x, stageEyeLine.r.y]}
                     stroke="rgba(0,200,0,0.9)"
                     strokeWidth={1.5}
                   />
                   <Text
                     text="Eye-line"
-                    x={(eyeLine.l.x + eyeLine.r.x) / 2 + 6}
-                    y={(eyeLine.l.y + eyeLine.r.y) / 2 - 16}
+                    x={(stageEyeLine.l.x + stageEyeLine.r.x) / 2 + 6}
+                    y={(stageEyeLine.l.y + stageEyeLine.r.y) / 2 - 16}
                     fontSize={12}
                     fill="rgba(0,160,0,0.9)"
                   />
                 </>
               ) : null}
 
-              {showThirds && thirdsYs ? (
+              {showThirds && stageThirds && thirds
+                ? stageThirds.map((seg, i) => (
+                    <React.Fragment key={`third-${seg.name}`}>
+                      <Line points={[seg.a.x, seg.a.y, seg.b.x, seg.b.y]} stroke="rgba(0,0,0,0.5)" strokeWidth={1} dash={[4, 4]} />
+                      <Text text={seg.name} x={seg.b.x + 6} y={seg.b.y - 6} fontSize={11} fill="#333" />
+                      {i < 3 ? (
+                        <Text
+                          text={`${(thirds.proportions[i] * 100).toFixed(0)}%`}
+                          x={seg.a.x - 34}
+                          y={(seg.a.y + stageThirds[i + 1].a.y) / 2 - 6}
+                          fontSize={11}
+                          fill={Math.abs(thirds.proportions[i] - IDEAL_THIRD) > THIRDS_TOLERANCE ? "#d0021b" : "#333"}
+                        />
+                      ) : null}
+                    </React.Fragment>
+                  ))
+                : null}
+              {showFifths && stageFifths && fifths
+                ? stageFifths.map((seg, i) => (
+                    <React.Fragment key={`fifth-${i}`}>
+                      <Line points={[seg.a.x, seg.a.y, seg.b.x, seg.b.y]} stroke="rgba(0,90,200,0.7)" strokeWidth={1} dash={[3, 3]} />
+                      {i < 5 ? (
+                        <Text
+                          text={`${(fifths.proportions[i] * 100).toFixed(0)}%`}
+                          x={(seg.b.x + stageFifths[i + 1].b.x) / 2 - 10}
+                          y={(seg.b.y + stageFifths[i + 1].b.y) / 2 + 4}
+                          fontSize={11}
+                          fill={Math.abs(fifths.proportions[i] - IDEAL_FIFTH) > FIFTHS_TOLERANCE ? "#d0021b" : "rgba(0,90,200,0.9)"}
+                        />
+                      ) : null}
+                    </React.Fragment>
+                  ))
+                : null}
+
+              {showPhiMask && stagePhiLines
+                ? stagePhiLines.map((line, i) => (
+                    <Line key={`phi-${i}`} points={flattenPts(line)} stroke="rgba(212,160,23,0.95)" strokeWidth={1.2} lineJoin="round" />
+                  ))
+                : null}
+
+              {/* lip analysis */}
+              {showLips && lips ? (
                 <>
-                  <Line points={[thirdsYs.xmin, thirdsYs.y1, thirdsYs.xmax, thirdsYs.y1]} stroke="rgba(0,0,0,0.5)" strokeWidth={1} dash={[4, 4]} />
-                  <Text text="1/3" x={thirdsYs.xmax + 6} y={thirdsYs.y1 - 6} fontSize={11} fill="#333" />
-                  <Line points={[thirdsYs.xmin, thirdsYs.y2, thirdsYs.xmax, thirdsYs.y2]} stroke="rgba(0,0,0,0.5)" strokeWidth={1} dash={[4, 4]} />
-                  <Text text="2/3" x={thirdsYs.xmax + 6} y={thirdsYs.y2 - 6} fontSize={11} fill="#333" />
+                  <Line points={flattenPts(lips.upperContour.map(toStage))} stroke="rgba(255,80,140,0.9)" strokeWidth={1.2} />
+                  <Line points={flattenPts(lips.lowerContour.map(toStage))} stroke="rgba(255,80,140,0.9)" strokeWidth={1.2} />
+                  {[lips.upperHeightLine, lips.lowerHeightLine].map((seg, i) => (
+                    <Line key={`lip-h-${i}`} points={flattenPts(seg.map(toStage))} stroke="#fff" strokeWidth={1.5} />
+                  ))}
+                  <Line points={flattenPts(lips.commissureLine.map(toStage))} stroke="rgba(255,80,140,0.9)" strokeWidth={1} dash={[4, 3]} />
+                  {lips.bowPeaks.map((p, i) => {
+                    const sp = toStage(p);
+                    return (
+                      <Circle key={`lip-bow-${i}`} x={sp.x} y={sp.y} radius={3} stroke="#fff" strokeWidth={1} fill="rgba(255,80,140,0.9)" />
+                    );
+                  })}
+                </>
+              ) : null}
+
+              {/* nasal guides */}
+              {showNose && nose ? (
+                <>
+                  <Line points={flattenPts(nose.alarWidthLine.map(toStage))} stroke="rgba(120,200,255,0.95)" strokeWidth={1.5} />
+                  {nose.canthalGuides.map((seg, i) => (
+                    <Line
+                      key={`nose-ic-${i}`}
+                      points={flattenPts(seg.map(toStage))}
+                      stroke="rgba(120,200,255,0.7)"
+                      strokeWidth={1}
+                      dash={[4, 3]}
+                    />
+                  ))}
+                  <Line points={flattenPts(nose.dorsumLine.map(toStage))} stroke="#fff" strokeWidth={1.2} />
+                  <Line points={flattenPts(nose.tipDeviationLine.map(toStage))} stroke="rgba(255,0,0,0.85)" strokeWidth={1.5} />
+                  {nose.alarBaseLines.map((seg, i) => (
+                    <Line key={`nose-base-${i}`} points={flattenPts(seg.map(toStage))} stroke="rgba(120,200,255,0.9)" strokeWidth={1} />
+                  ))}
+                  {nose.alarBases.map((p, i) => {
+                    const sp = toStage(p);
+                    return (
+                      <Circle key={`nose-base-pt-${i}`} x={sp.x} y={sp.y} radius={3} stroke="#fff" strokeWidth={1} fill="rgba(120,200,255,0.95)" />
+                    );
+                  })}
+                </>
+              ) : null}
+
+              {/* tear trough (medial) and lid-cheek junction (lateral) */}
+              {showMidface && midface
+                ? [midface.right, midface.left].map((s) => (
+                    <React.Fragment key={`midface-${s.side}`}>
+                      <Line
+                        points={flattenPts(s.tearTrough.path.map(toStage))}
+                        stroke="rgba(180,120,255,0.95)"
+                        strokeWidth={2}
+                        tension={0.4}
+                      />
+                      <Line
+                        points={flattenPts(s.lidCheekJunction.path.map(toStage))}
+                        stroke="rgba(180,120,255,0.7)"
+                        strokeWidth={1.5}
+                        dash={[5, 3]}
+                        tension={0.4}
+                      />
+                    </React.Fragment>
+                  ))
+                : null}
+
+              {/* periorbital annotations */}
+              {showPeriorbital && periorbital
+                ? [periorbital.right, periorbital.left].map((eye: EyeSide) => {
+                    const [endo, exo] = eye.canthi.map(toStage);
+                    const pupil = toStage(eye.pupil);
+                    const brow = eye.browAbovePupil ? toStage(eye.browAbovePupil) : null;
+                    const apex = eye.apex ? toStage(eye.apex) : null;
+                    const limbus = eye.limbus ? toStage(eye.limbus) : null;
+                    return (
+                      <React.Fragment key={`peri-${eye.side}`}>
+                        <Line points={[endo.x, endo.y, exo.x, exo.y]} stroke="rgba(0,200,200,0.95)" strokeWidth={1.5} />
+                        <Text
+                          text={`${eye.canthalTiltDeg.toFixed(1)}°`}
+                          x={exo.x + (eye.side === "left" ? 6 : -40)}
+                          y={exo.y - 6}
+                          fontSize={11}
+                          fill="rgba(0,200,200,0.95)"
+                        />
+                        {brow ? (
+                          <Line points={[pupil.x, pupil.y, brow.x, brow.y]} stroke="rgba(0,200,200,0.8)" strokeWidth={1} dash={[3, 3]} />
+                        ) : null}
+                        <Circle x={pupil.x} y={pupil.y} radius={2.5} fill="rgba(0,200,200,0.95)" />
+                        {apex ? <Circle x={apex.x} y={apex.y} radius={4} stroke="rgba(0,200,200,0.95)" strokeWidth={1.5} /> : null}
+                        {limbus && apex ? (
+                          <Line points={[limbus.x, limbus.y, apex.x, apex.y]} stroke="rgba(0,200,200,0.5)" strokeWidth={1} dash={[2, 3]} />
+                        ) : null}
+                      </React.Fragment>
+                    );
+                  })
+                : null}
+
+              {/* lower-face contour */}
+              {showJawline && lowerFace
+                ? (() => {
+                    const gR = toStage(lowerFace.gonion.right);
+                    const gL = toStage(lowerFace.gonion.left);
+                    const cR = toStage(lowerFace.chin.right);
+                    const cL = toStage(lowerFace.chin.left);
+                    return (
+                      <>
+                        <Line
+                          points={flattenPts(lowerFace.silhouette.map(toStage))}
+                          stroke="rgba(255,255,255,0.5)"
+                          strokeWidth={1}
+                          dash={[2, 3]}
+                        />
+                        <Line
+                          points={flattenPts(lowerFace.jawline.map(toStage))}
+                          stroke="rgba(120,220,80,0.95)"
+                          strokeWidth={2}
+                          lineCap="round"
+                        />
+                        <Line points={[gR.x, gR.y, gL.x, gL.y]} stroke="rgba(120,220,80,0.8)" strokeWidth={1} dash={[5, 3]} />
+                        <Line points={[cR.x, cR.y, cL.x, cL.y]} stroke="rgba(120,220,80,0.8)" strokeWidth={1} dash={[5, 3]} />
+                        {[gR, gL].map((g, i) => (
+                          <Circle key={`gonion-${i}`} x={g.x} y={g.y} radius={4} fill="rgba(120,220,80,0.95)" stroke="#000" strokeWidth={0.5} />
+                        ))}
+                        {lowerFace.gonialAngleDeg ? (
+                          <>
+                            <Text
+                              text={`${lowerFace.gonialAngleDeg.right.toFixed(0)}°`}
+                              x={gR.x - 36}
+                              y={gR.y}
+                              fontSize={11}
+                              fill="rgba(120,220,80,0.95)"
+                            />
+                            <Text
+                              text={`${lowerFace.gonialAngleDeg.left.toFixed(0)}°`}
+                              x={gL.x + 8}
+                              y={gL.y}
+                              fontSize={11}
+                              fill="rgba(120,220,80,0.95)"
+                            />
+                          </>
+                        ) : null}
+                      </>
+                    );
+                  })()
+                : null}
+
+              {showThirds && stageTrichion ? (
+                <Circle
+                  x={stageTrichion.x}
+                  y={stageTrichion.y}
+                  radius={6}
+                  fill={thirds?.trichionSource === "manual" ? "rgba(255,120,0,0.9)" : "rgba(255,255,255,0.6)"}
+                  stroke="#333"
+                  strokeWidth={1}
+                  draggable
+                  onDragEnd={(e: KonvaDragEvent) => moveTrichion(stageToImage(view, { x: e.target.x(), y: e.target.y() }))}
+                />
+              ) : null}
+
+              {/* landmark correction handles */}
+              {editLandmarks !== "off" && landmarks.length > 0
+                ? (editLandmarks === "key" ? KEY_LANDMARKS.map((k) => k.index) : landmarks.map((_, idx) => idx)).map((idx) => {
+                    const lm = landmarks[idx];
+                    if (!lm) return null;
+                    const sp = toStage({ x: lm[0], y: lm[1] });
+                    const key = editLandmarks === "key";
+                    return (
+                      <Circle
+                        key={`edit-lm-${idx}`}
+                        x={sp.x}
+                        y={sp.y}
+                        radius={key ? 5 : 2.5}
+                        fill={faceOverrides?.[idx] ? "rgba(255,120,0,0.9)" : "rgba(0,150,255,0.6)"}
+                        stroke="#fff"
+                        strokeWidth={key ? 1 : 0.5}
+                        // in measure mode a click here places a measurement point instead
+                        draggable={!measureTool}
+                        onDragEnd={(e: KonvaDragEvent) => overrideLandmark(idx, stageToImage(view, { x: e.target.x(), y: e.target.y() }))}
+                      />
+                    );
+                  })
+                : null}
+
+              {/* measurements */}
+              {measurements.map((m) => {
+                const pts = m.points.map(toStage);
+                const val = measurementValue(m, calibration);
+                // distance / profile: midpoint; angle: vertex; area: first vertex
+                const labelAt =
+                  m.kind === "distance" || m.kind === "profile"
+                    ? { x: (pts[0].x + pts[1].x) / 2, y: (pts[0].y + pts[1].y) / 2 }
+                    : m.kind === "angle"
+                      ? pts[1]
+                      : pts[0];
+                return (
+                  <React.Fragment key={`measure-${m.id}`}>
+                    <Line
+                      points={flattenPts(pts)}
+                      closed={m.kind === "area"}
+                      fill={m.kind === "area" ? "rgba(255,215,0,0.15)" : undefined}
+                      stroke="#ffd700"
+                      strokeWidth={1.5}
+                      dash={m.kind === "profile" ? [8, 4] : undefined}
+                    />
+                    <Text
+                      text={`${m.label ? `${m.label}: ` : ""}${val?.text ?? ""}`}
+                      x={labelAt.x + 6}
+                      y={labelAt.y - 16}
+                      fontSize={12}
+                      fill="#ffd700"
+                      shadowColor="#000"
+                      shadowBlur={2}
+                    />
+                    {pts.map((sp, i) => (
+                      <Circle
+                        key={`measure-${m.id}-${i}`}
+                        x={sp.x}
+                        y={sp.y}
+                        radius={4}
+                        fill="#ffd700"
+                        stroke="#000"
+                        strokeWidth={0.5}
+                        draggable
+                        onDragEnd={(e: KonvaDragEvent) => moveMeasurePoint(m.id, i, stageToImage(view, { x: e.target.x(), y: e.target.y() }))}
+                      />
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+              {measureDraft.length > 0 ? (
+                <>
+                  <Line points={flattenPts(measureDraft.map(toStage))} stroke="#ffd700" strokeWidth={1} dash={[4, 3]} />
+                  {measureDraft.map((p, i) => {
+                    const sp = toStage(p);
+                    return <Circle key={`measure-draft-${i}`} x={sp.x} y={sp.y} radius={3} fill="#ffd700" />;
+                  })}
                 </>
               ) : null}
 
+              {/* manual anchors being placed */}
+              {anchorMode
+                ? ANCHORS.filter((a) => anchors[a.id]).map((a) => {
+                    const sp = toStage(anchors[a.id]!);
+                    return (
+                      <React.Fragment key={`anchor-${a.id}`}>
+                        <Circle x={sp.x} y={sp.y} radius={4} stroke="#00e0ff" strokeWidth={2} />
+                        <Text text={a.label.split(" (")[0]} x={sp.x + 6} y={sp.y - 14} fontSize={11} fill="#00e0ff" />
+                      </React.Fragment>
+                    );
+                  })
+                : null}
+
               {/* annotation points */}
               {points.map((p) => {
                 const offset = pointOffsets.find((o) => o.id === p.id);
-                const label = p.product ? `${p.product} ${p.dose ?? ""}`.trim() : `${offset ? sideLabel(offset.side) + " " + offset.dist + "px" : ""}`;
+                const offsetText = offset
+                  ? `${sideLabel(offset.side)} ${formatLength(offset.dist, calibration)}${offsetsUnreliable ? " (?)" : ""}`
+                  : "";
+                const label = p.product ? `${p.product} ${p.dose ?? ""}`.trim() : p.note || offsetText;
+                const sp = toStage(p);
                 return (
                   <Group
                     key={p.id}
-                    x={p.x}
-                    y={p.y}
+                    x={sp.x}
+                    y={sp.y}
                     draggable
-                    onDragEnd={(e) => {
-                      const nx = (e.target as any).x();
-                      const ny = (e.target as any).y();
-                      updatePointMeta(p.id, { x: nx, y: ny });
-                    }}
+                    onDragEnd={(e: KonvaDragEvent) => updatePointMeta(p.id, stageToImage(view, { x: e.target.x(), y: e.target.y() }))}
                   >
                     <Circle radius={8} fill="rgba(255,165,0,0.95)" stroke="black" strokeWidth={1} />
                     <Text text="●" fontSize={12} offsetX={6} offsetY={6} />
@@ -4671,7 +5615,653 @@ export default function FaceCanvas(): JSX.Element {
         <div style={{ width: 420 }}>
           <h3>Session</h3>
           <div>
-            <strong>Detected landmarks:</strong> {landmarks.length}
+            <strong>Detected landmarks:</strong> {landmarks.filter(Boolean).length}
+            {faceMeta ? (
+              <span style={{ color: "#999", fontSize: 12 }}>
+                {" "}
+                ({faceMeta.meshVersion}
+                {faceMeta.score !== null ? `, score ${faceMeta.score.toFixed(2)}` : ""})
+              </span>
+            ) : null}
+          </div>
+          {registryCheck && registryCheck.outOfRange.length > 0 ? (
+            <div style={{ marginTop: 4, color: "#b36b00", fontSize: 12 }}>
+              ⚠ Landmark registry targets {REGISTRY_MESH_VERSION}; this mesh has {registryCheck.meshSize} points, so{" "}
+              {registryCheck.outOfRange.join(", ")} {registryCheck.outOfRange.length === 1 ? "is" : "are"} unavailable.
+            </div>
+          ) : null}
+          {registryCheck && registryCheck.duplicates.length > 0 ? (
+            <div style={{ marginTop: 4, color: "#b36b00", fontSize: 12 }}>
+              ⚠ Landmark registry maps several names to one index:{" "}
+              {registryCheck.duplicates.map((d) => `#${d.index} (${d.names.join(", ")})`).join("; ")}
+            </div>
+          ) : null}
+          {imgEl && (noFaceFound || anchorMode || (detectionUnavailable && faces.length === 0)) ? (
+            <div style={{ marginTop: 8, padding: 8, borderRadius: 6, border: "1px solid #00e0ff" }}>
+              {anchorMode ? (
+                <>
+                  <div>
+                    <strong>
+                      Anchor {Math.min(ANCHORS.length, ANCHORS.filter((a) => anchors[a.id]).length + 1)}/{ANCHORS.length}:
+                    </strong>{" "}
+                    click the {nextAnchor?.label.toLowerCase()}
+                  </div>
+                  <div style={{ display: "flex", gap: 6, marginTop: 6 }}>
+                    <button onClick={undoAnchor}>undo</button>
+                    <button onClick={() => setAnchorMode(false)}>cancel</button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>{noFaceFound ? "No face detected in this photo." : "Automatic detection is unavailable."}</div>
+                  <button onClick={startAnchorMode} style={{ marginTop: 6 }}>
+                    Place anchors manually
+                  </button>
+                </>
+              )}
+            </div>
+          ) : null}
+          {faceMeta?.meshVersion === "manual-anchors" ? (
+            <div style={{ marginTop: 6, fontSize: 12, color: "#999" }}>
+              Using an approximate mesh fitted to {ANCHORS.length} manual anchors.{" "}
+              <button onClick={startAnchorMode}>re-place</button>
+            </div>
+          ) : null}
+          {faces.length > 1 ? (
+            <div style={{ marginTop: 6, display: "flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+              <strong>Faces:</strong>
+              {faces.map((f, idx) => (
+                <button
+                  key={`pick-${idx}`}
+                  onClick={() => selectFace(idx)}
+                  style={{ fontWeight: idx === selectedFace ? 700 : 400, outline: idx === selectedFace ? "2px solid orange" : undefined }}
+                >
+                  Face {idx + 1}
+                  {f.score !== null ? ` (${f.score.toFixed(2)})` : ""}
+                </button>
+              ))}
+            </div>
+          ) : null}
+          {detectProgress ? <div style={{ marginTop: 6, color: "#999" }}>{detectProgress}</div> : null}
+          <div style={{ marginTop: 6 }}>
+            <strong>Backend:</strong>{" "}
+            {backendStatus.state === "ready"
+              ? `${backendStatus.active} (${backendStatus.loadMs} ms)`
+              : backendStatus.state === "failed"
+              ? "none available"
+              : backendStatus.state === "loading"
+              ? "loading…"
+              : "—"}
+          </div>
+          {backendStatus.attempts.some((a) => !a.ok) ? (
+            <div style={{ marginTop: 4, fontSize: 12, color: backendStatus.state === "failed" ? "#c71b2b" : "#999" }}>
+              {backendStatus.attempts
+                .filter((a) => !a.ok)
+                .map((a) => (
+                  <div key={a.name}>
+                    {a.name} failed after {a.ms} ms: {a.error}
+                  </div>
+                ))}
+            </div>
+          ) : null}
+          <div style={{ marginTop: 6 }}>
+            <strong>Model:</strong>{" "}
+            {modelStatus.state === "ready"
+              ? `ready (${Object.entries(modelStatus.sources)
+                  .map(([id, src]) => `${id}: ${src}`)
+                  .join(", ")})`
+              : modelStatus.state === "loading"
+              ? "loading…"
+              : modelStatus.state === "missing"
+              ? "weights missing"
+              : modelStatus.state === "failed"
+              ? "failed to load"
+              : "—"}
+            <button onClick={() => detectorClientRef.current?.clearModelCache()} style={{ marginLeft: 6 }}>
+              clear cache
+            </button>
+          </div>
+          {modelStatus.error ? (
+            <div style={{ marginTop: 4, fontSize: 12, color: "#c71b2b" }}>
+              {modelStatus.error}
+              {modelStatus.state === "missing" ? (
+                <div>
+                  Copy the FaceMesh model files into <code>{MODEL_BASE_URL}</code> (see public/models/README.md). Detection is disabled
+                  until they are present.
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Landmark corrections</h4>
+            {overrideCount === 0 ? (
+              <div style={{ fontSize: 13, color: "#999" }}>
+                None. Choose "Edit" in the toolbar and drag a landmark to correct it.
+              </div>
+            ) : (
+              <>
+                <div style={{ fontSize: 13 }}>
+                  {overrideCount} landmark{overrideCount === 1 ? "" : "s"} corrected
+                  <button onClick={() => resetLandmark()} style={{ marginLeft: 6 }}>
+                    reset all
+                  </button>
+                </div>
+                {Object.keys(faceOverrides ?? {}).map((key) => {
+                  const idx = Number(key);
+                  const named = KEY_LANDMARKS.find((k) => k.index === idx);
+                  const registryName = nameForIndex(idx);
+                  const raw = rawLandmarks[idx];
+                  const moved = raw ? Math.hypot(faceOverrides[idx][0] - raw[0], faceOverrides[idx][1] - raw[1]) : 0;
+                  return (
+                    <div key={`ov-${idx}`} style={{ fontSize: 12, display: "flex", gap: 6, alignItems: "center" }}>
+                      #{idx} {named ? named.label : registryName ? LANDMARK_REGISTRY[registryName].description : ""} — moved {formatLength(moved, calibration)}
+                      <button onClick={() => resetLandmark(idx)}>reset</button>
+                    </div>
+                  );
+                })}
+              </>
+            )}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Calibration</h4>
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <select value={calibrationSource} onChange={(e) => setCalibrationSource(e.target.value as CalibrationSource)}>
+                <option value="iris">Iris diameter (auto)</option>
+                <option value="ipd">Interpupillary distance</option>
+                <option value="none">None (pixels)</option>
+              </select>
+              {calibrationSource === "ipd" ? (
+                <label style={{ fontSize: 13 }}>
+                  IPD{" "}
+                  <input
+                    type="number"
+                    min={40}
+                    max={80}
+                    step={0.5}
+                    value={ipdMm}
+                    onChange={(e) => setIpdMm(Number(e.target.value))}
+                    style={{ width: 56 }}
+                  />{" "}
+                  mm
+                </label>
+              ) : null}
+            </div>
+            <div style={{ marginTop: 4, fontSize: 13 }}>
+              {calibration.mmPerPx !== null ? `${calibration.mmPerPx.toFixed(4)} mm/px — ${calibration.detail}` : calibration.detail}
+            </div>
+            {calibrationSource !== "none" && calibration.source === "none" && landmarks.length > 0 ? (
+              <div style={{ color: "#f5a623", fontSize: 12 }}>Iris landmarks not available; showing pixels.</div>
+            ) : null}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Head pose</h4>
+            {headPose ? (
+              <>
+                <div>
+                  yaw {headPose.yaw.toFixed(1)}°, pitch {headPose.pitch.toFixed(1)}°, roll {headPose.roll.toFixed(1)}°
+                </div>
+                {poseIssues.map((w) => (
+                  <div key={w} style={{ color: "#f5a623", fontSize: 13 }}>
+                    ⚠ {w}
+                  </div>
+                ))}
+                {offsetsUnreliable ? (
+                  <div style={{ color: "#999", fontSize: 12 }}>Midline offsets are unreliable until the photo is retaken frontally.</div>
+                ) : null}
+              </>
+            ) : (
+              <div>—</div>
+            )}
+            <div style={{ display: "flex", gap: 8, marginTop: 6, fontSize: 12 }}>
+              Tolerance:
+              {(["yaw", "pitch", "roll"] as const).map((axis) => (
+                <label key={axis}>
+                  {axis}{" "}
+                  <input
+                    type="number"
+                    min={0}
+                    max={45}
+                    value={poseTolerance[axis]}
+                    onChange={(e) => setPoseTolerance((t) => ({ ...t, [axis]: Number(e.target.value) || 0 }))}
+                    style={{ width: 44 }}
+                  />
+                  °
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Midline</h4>
+            <div style={{ fontSize: 13 }}>
+              {midlineMode === "two-point"
+                ? "Forehead → menton"
+                : midlineMode === "fitted"
+                  ? "Robust fit through midsagittal landmarks"
+                  : "Drawn manually (drag the red handles)"}
+              {midlineMode !== "two-point" && !chosenMidline ? " — unavailable, using the bounding-box centre" : ""}
+            </div>
+            {midlineFit ? (
+              <div style={{ fontSize: 13 }}>
+                Residual {formatLength(midlineFit.rmsPx, calibration)} RMS, max {formatLength(midlineFit.maxPx, calibration)}
+                {midlineFit.worst ? ` (${midlineFit.worst})` : ""} over {midlineFit.count} midsagittal landmarks
+              </div>
+            ) : null}
+            {midlineMode === "manual" && manualLine ? (
+              <button
+                onClick={() =>
+                  setManualMidlines((all) => {
+                    const rest = { ...all };
+                    delete rest[selectedFace];
+                    return rest;
+                  })
+                }
+              >
+                reset to fitted
+              </button>
+            ) : null}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Facial thirds</h4>
+            {thirds ? (
+              <>
+                {(["Upper (trichion–glabella)", "Middle (glabella–subnasale)", "Lower (subnasale–menton)"] as const).map((label, i) => {
+                  const dev = thirds.proportions[i] - IDEAL_THIRD;
+                  return (
+                    <div key={label} style={{ fontSize: 13, color: Math.abs(dev) > THIRDS_TOLERANCE ? "#d0021b" : undefined }}>
+                      {label}: {formatLength(thirds.heights[i], calibration)} — {(thirds.proportions[i] * 100).toFixed(1)}% (
+                      {dev >= 0 ? "+" : ""}
+                      {(dev * 100).toFixed(1)} pts vs 33.3%)
+                    </div>
+                  );
+                })}
+                <div style={{ fontSize: 12, color: "#999", marginTop: 4 }}>
+                  Trichion {thirds.trichionSource === "manual" ? "placed manually" : "estimated — drag the white handle onto the hairline"}
+                  {thirds.trichionSource === "manual" ? (
+                    <button onClick={resetTrichion} style={{ marginLeft: 6 }}>
+                      re-estimate
+                    </button>
+                  ) : null}
+                </div>
+              </>
+            ) : (
+              <div>—</div>
+            )}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Proportions</h4>
+            {fifths ? (
+              <>
+                <div style={{ fontSize: 13, fontWeight: 600 }}>Fifths (ideal 20% each, one eye width)</div>
+                {FIFTH_LABELS.map((label, i) => {
+                  const dev = fifths.proportions[i] - IDEAL_FIFTH;
+                  return (
+                    <div key={label} style={{ fontSize: 13, color: Math.abs(dev) > FIFTHS_TOLERANCE ? "#d0021b" : undefined }}>
+                      {label}: {formatLength(fifths.widths[i], calibration)} — {(fifths.proportions[i] * 100).toFixed(1)}% (
+                      {dev >= 0 ? "+" : ""}
+                      {(dev * 100).toFixed(1)} pts), {fifths.eyeRatios[i].toFixed(2)}× eye width
+                    </div>
+                  );
+                })}
+              </>
+            ) : (
+              <div style={{ fontSize: 13 }}>Fifths: —</div>
+            )}
+            {phi ? (
+              <>
+                <div style={{ fontSize: 13, fontWeight: 600, marginTop: 6 }}>Golden ratio (φ = {PHI.toFixed(3)})</div>
+                {phi.ratios.map((r) => (
+                  <div key={r.id} style={{ fontSize: 13, color: Math.abs(r.deviation) > PHI_TOLERANCE ? "#d0021b" : undefined }}>
+                    {r.label}: {r.value.toFixed(3)} ({r.deviation >= 0 ? "+" : ""}
+                    {(r.deviation * 100).toFixed(1)}% vs φ)
+                  </div>
+                ))}
+                <div style={{ fontSize: 12, color: "#999" }}>Mask fit error {phi.fitErrorPct.toFixed(1)}% of face width</div>
+              </>
+            ) : null}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Lip analysis</h4>
+            {lips ? (
+              <>
+                <div style={{ fontSize: 13 }}>
+                  Upper {formatLength(lips.upperHeightPx, calibration)}, lower {formatLength(lips.lowerHeightPx, calibration)}, width{" "}
+                  {formatLength(lips.widthPx, calibration)}
+                </div>
+                {lips.metrics.map((m) => (
+                  <div key={m.id} style={{ fontSize: 13, color: m.ok ? undefined : "#d0021b" }}>
+                    {m.ok ? "" : "⚠ "}
+                    {m.label}: {m.text} <span style={{ color: "#999" }}>(ideal {m.ideal})</span>
+                  </div>
+                ))}
+              </>
+            ) : (
+              <div>—</div>
+            )}
+            <div style={{ display: "flex", gap: 8, marginTop: 6, fontSize: 12, flexWrap: "wrap" }}>
+              Ideals:
+              {(["upperLowerRatio", "widthToIntercanthal"] as const).map((key) => (
+                <label key={key}>
+                  {key === "upperLowerRatio" ? "U:L" : "width:IC"}{" "}
+                  {(["min", "max"] as const).map((bound) => (
+                    <input
+                      key={bound}
+                      type="number"
+                      step={0.05}
+                      value={lipIdeals[key][bound]}
+                      onChange={(e) => setLipIdeals((t) => ({ ...t, [key]: { ...t[key], [bound]: Number(e.target.value) || 0 } }))}
+                      style={{ width: 48 }}
+                    />
+                  ))}
+                </label>
+              ))}
+              <label>
+                bow{" "}
+                <input
+                  type="number"
+                  min={0}
+                  value={lipIdeals.bowAsymmetryPct}
+                  onChange={(e) => setLipIdeals((t) => ({ ...t, bowAsymmetryPct: Number(e.target.value) || 0 }))}
+                  style={{ width: 44 }}
+                />
+                %
+              </label>
+              <label>
+                tilt{" "}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={lipIdeals.commissureTiltDeg}
+                  onChange={(e) => setLipIdeals((t) => ({ ...t, commissureTiltDeg: Number(e.target.value) || 0 }))}
+                  style={{ width: 44 }}
+                />
+                °
+              </label>
+            </div>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Nasal analysis</h4>
+            {nose ? (
+              <>
+                <div style={{ fontSize: 13 }}>
+                  Alar width {formatLength(nose.alarWidthPx, calibration)}, intercanthal {formatLength(nose.intercanthalPx, calibration)}
+                </div>
+                {nose.metrics.map((m) => (
+                  <div key={m.id} style={{ fontSize: 13, color: m.ok ? undefined : "#d0021b" }}>
+                    {m.ok ? "" : "⚠ "}
+                    {m.label}: {m.text} <span style={{ color: "#999" }}>(ideal {m.ideal})</span>
+                  </div>
+                ))}
+                <div style={{ color: "#999", fontSize: 12 }}>
+                  Dashed guides drop from the medial canthi; the alae usually sit close to them. IC = intercanthal width.
+                </div>
+              </>
+            ) : (
+              <div>—</div>
+            )}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Periorbital</h4>
+            {periorbital ? (
+              <>
+                <table style={{ fontSize: 12, borderCollapse: "collapse", width: "100%" }}>
+                  <thead>
+                    <tr style={{ textAlign: "left" }}>
+                      <th />
+                      <th>Right</th>
+                      <th>Left</th>
+                      <th>L − R</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    <tr>
+                      <td>Canthal tilt</td>
+                      <td>{periorbital.right.canthalTiltDeg.toFixed(1)}°</td>
+                      <td>{periorbital.left.canthalTiltDeg.toFixed(1)}°</td>
+                      <td>{periorbital.diff.canthalTiltDeg.toFixed(1)}°</td>
+                    </tr>
+                    <tr>
+                      <td>Brow–pupil height</td>
+                      {[periorbital.right.browPupilPx, periorbital.left.browPupilPx, periorbital.diff.browPupilPx].map((v, i) => (
+                        <td key={i}>{v === null ? "—" : formatLength(v, calibration)}</td>
+                      ))}
+                    </tr>
+                    <tr>
+                      <td>Apex vs lateral limbus</td>
+                      {[periorbital.right.apexToLimbusPx, periorbital.left.apexToLimbusPx, periorbital.diff.apexToLimbusPx].map((v, i) => (
+                        <td key={i}>
+                          {v === null ? "—" : i < 2 ? `${v >= 0 ? "lat" : "med"} ${formatLength(Math.abs(v), calibration)}` : formatLength(v, calibration)}
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+                {periorbital.right.pupilEstimated || periorbital.left.pupilEstimated ? (
+                  <div style={{ color: "#f5a623", fontSize: 12 }}>
+                    Iris landmarks missing: pupil taken as the canthal midpoint, limbus unavailable.
+                  </div>
+                ) : null}
+              </>
+            ) : (
+              <div>—</div>
+            )}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Tear trough / midface</h4>
+            {midface ? (
+              <>
+                <table style={{ fontSize: 12, borderCollapse: "collapse", width: "100%" }}>
+                  <thead>
+                    <tr style={{ textAlign: "left" }}>
+                      <th></th>
+                      <th>Length</th>
+                      <th>Depth (mean / max)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[midface.right, midface.left].flatMap((s) =>
+                      (
+                        [
+                          ["tearTrough", "tear trough"],
+                          ["lidCheekJunction", "lid-cheek junction"],
+                        ] as const
+                      ).map(([key, label]) => {
+                        const g: Groove = s[key];
+                        return (
+                          <tr key={`${s.side}-${key}`}>
+                            <td>
+                              {s.side === "right" ? "R" : "L"} {label}
+                            </td>
+                            <td>{formatLength(g.lengthPx, calibration)}</td>
+                            <td>
+                              {g.meanDepthPx !== null && g.maxDepthPx !== null
+                                ? `${formatLength(g.meanDepthPx, calibration)} / ${formatLength(g.maxDepthPx, calibration)}`
+                                : "—"}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+                <div style={{ color: "#999", fontSize: 12, marginTop: 4 }}>
+                  {midface.hasDepth
+                    ? "Depth: how far the groove sits behind the lid-to-cheek slope (mesh z, > 0 = hollow); compare sides."
+                    : "No depth data in this mesh, so only lengths are shown."}{" "}
+                  The Tear trough preset places deep (supraperiosteal) targets along each trough and a cannula entry on the lid-cheek
+                  junction.
+                </div>
+              </>
+            ) : (
+              <div>—</div>
+            )}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Lower face</h4>
+            {lowerFace ? (
+              <div style={{ fontSize: 13 }}>
+                <div>Bigonial width: {formatLength(lowerFace.bigonialPx, calibration)}</div>
+                <div>Chin width: {formatLength(lowerFace.chinWidthPx, calibration)}</div>
+                <div>Jaw taper (chin : bigonial): {lowerFace.taperRatio.toFixed(2)}</div>
+                {lowerFace.jawToCheekRatio !== null ? <div>Bigonial : bizygomatic: {lowerFace.jawToCheekRatio.toFixed(2)}</div> : null}
+                <div>
+                  Gonial angle:{" "}
+                  {lowerFace.gonialAngleDeg
+                    ? `R ${lowerFace.gonialAngleDeg.right.toFixed(0)}°, L ${lowerFace.gonialAngleDeg.left.toFixed(0)}°`
+                    : `— (${lowerFace.gonialAngleWithheld})`}
+                </div>
+                <div style={{ color: "#999", fontSize: 12 }}>Jawline fit RMS {formatLength(lowerFace.fitRmsPx, calibration)}</div>
+              </div>
+            ) : (
+              <div>—</div>
+            )}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Face shape</h4>
+            {faceShape ? (
+              <>
+                <div style={{ fontSize: 13 }}>
+                  <strong>{FACE_SHAPES.find((s) => s.id === faceShape.shape)?.label}</strong>
+                  {faceShape.scores[1].score === faceShape.scores[0].score ? ` (also fits ${faceShape.scores[1].label.toLowerCase()})` : ""}
+                </div>
+                <div style={{ fontSize: 13 }}>
+                  Forehead {formatLength(faceShape.widthsPx.forehead, calibration)}, cheekbones{" "}
+                  {formatLength(faceShape.widthsPx.cheekbone, calibration)}, jaw {formatLength(faceShape.widthsPx.jaw, calibration)},
+                  length {formatLength(faceShape.widthsPx.length, calibration)}
+                </div>
+                {faceShape.scores.map((s) => (
+                  <div key={s.shape} style={{ fontSize: 12, marginTop: 2 }}>
+                    <span style={{ fontWeight: s.shape === faceShape.shape ? 600 : undefined }}>
+                      {s.label} {Math.round(s.score * 100)}%
+                    </span>
+                    : {s.criteria.map((c) => `${c.pass ? "✓" : "✗"} ${c.text}`).join(", ")}
+                  </div>
+                ))}
+                {faceShape.trichionEstimated ? (
+                  <div style={{ color: "#f5a623", fontSize: 12, marginTop: 4 }}>
+                    Face length uses the estimated hairline; drag the trichion marker to firm it up.
+                  </div>
+                ) : null}
+              </>
+            ) : (
+              <div>—</div>
+            )}
+            <div style={{ display: "flex", gap: 8, marginTop: 6, fontSize: 12, flexWrap: "wrap" }}>
+              Rules:
+              {(
+                [
+                  ["longMin", "long ≥"],
+                  ["shortMax", "short <"],
+                  ["broadJawMin", "broad jaw ≥"],
+                  ["broadForeheadMin", "broad forehead ≥"],
+                  ["taperMax", "taper ≤"],
+                ] as const
+              ).map(([key, label]) => (
+                <label key={key}>
+                  {label}{" "}
+                  <input
+                    type="number"
+                    step={0.05}
+                    value={faceShapeRules[key]}
+                    onChange={(e) => setFaceShapeRules((r) => ({ ...r, [key]: Number(e.target.value) || 0 }))}
+                    style={{ width: 48 }}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Depth</h4>
+            {depthSites ? (
+              <div style={{ fontSize: 13 }}>
+                {depthSites.map((s) => (
+                  <div key={s.name}>
+                    {s.label}: {formatLength(Math.abs(s.projectionPx), calibration)}{" "}
+                    {s.projectionPx >= 0 ? "in front of" : "behind"} the medial canthi
+                  </div>
+                ))}
+                {showDepth ? (
+                  <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, marginTop: 4 }}>
+                    <span>far</span>
+                    <div
+                      style={{
+                        width: 120,
+                        height: 8,
+                        background: `linear-gradient(to right, ${depthColor(0)}, ${depthColor(0.5)}, ${depthColor(1)})`,
+                      }}
+                    />
+                    <span>near</span>
+                  </div>
+                ) : null}
+                <div style={{ color: "#999", fontSize: 12, marginTop: 4 }}>
+                  Relative depth estimated by the mesh from a single photo; compare sides and visits rather than reading it as an
+                  absolute measurement. Draw a line with Measure: Depth profile to plot projection along it.
+                </div>
+              </div>
+            ) : (
+              <div style={{ color: "#999", fontSize: 12 }}>No depth data in this mesh (manual anchors carry no z)</div>
+            )}
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <h4>Symmetry</h4>
+            {symmetry ? (
+              <>
+                <div style={{ fontSize: 13 }}>
+                  Overall asymmetry {symmetry.overall.toFixed(1)}% of canthal width ({symmetry.pairs.length} mirrored pairs)
+                </div>
+                <table style={{ fontSize: 12, borderCollapse: "collapse", marginTop: 4, width: "100%" }}>
+                  <thead>
+                    <tr style={{ textAlign: "left" }}>
+                      <th>Region</th>
+                      <th>Mean</th>
+                      <th>Max</th>
+                      <th>Offset</th>
+                      <th>Vertical (L vs R)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {symmetry.regions.map((r) => (
+                      <tr key={r.region}>
+                        <td>
+                          <span style={{ display: "inline-block", width: 10, height: 10, marginRight: 4, background: heatColor(r.meanScore) }} />
+                          {SYMMETRY_REGIONS.find((s) => s.id === r.region)?.label}
+                        </td>
+                        <td>{r.meanScore.toFixed(1)}%</td>
+                        <td>{r.maxScore.toFixed(1)}%</td>
+                        <td>{formatLength(r.meanDistPx, calibration)}</td>
+                        <td>
+                          {Math.abs(r.meanVerticalPx) < 0.5
+                            ? "level"
+                            : `${r.meanVerticalPx > 0 ? "L" : "R"} higher ${formatLength(Math.abs(r.meanVerticalPx), calibration)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div style={{ color: "#999", fontSize: 12, marginTop: 4 }}>
+                  Heatmap: green = symmetric, red ≥ {HEATMAP_MAX_SCORE}% of canthal width.
+                </div>
+                {offsetsUnreliable ? (
+                  <div style={{ color: "#f5a623", fontSize: 12 }}>⚠ Non-frontal pose: asymmetry scores are inflated by the head rotation.</div>
+                ) : null}
+              </>
+            ) : (
+              <div>—</div>
+            )}
           </div>
 
           <div style={{ marginTop: 12 }}>
@@ -4692,6 +6282,49 @@ export default function FaceCanvas(): JSX.Element {
             </div>
           </div>
 
+          <div style={{ marginTop: 12 }}>
+            <h4>Measurements</h4>
+            {measureTool ? (
+              <div style={{ fontSize: 12, color: "#999" }}>
+                Click the image to place {measurementKind(measureTool).label.toLowerCase()} points
+                {measureTool === "area" ? " (then Close area)" : ""}.
+              </div>
+            ) : null}
+            {measurements.length === 0 ? <div>No measurements yet</div> : null}
+            {measurements.map((m) => {
+              const profile = depthProfiles[m.id];
+              return (
+                <div key={m.id}>
+                  <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13, marginTop: 4 }}>
+                    <span style={{ width: 60 }}>{measurementKind(m.kind).label}</span>
+                    <input
+                      value={m.label ?? ""}
+                      placeholder="label"
+                      onChange={(e) => updateMeasurementLabel(m.id, e.target.value)}
+                      style={{ width: 110, padding: "2px 4px" }}
+                    />
+                    <strong>{measurementValue(m, calibration)?.text ?? "—"}</strong>
+                    <button onClick={() => removeMeasurement(m.id)}>remove</button>
+                  </div>
+                  {m.kind === "profile" && !profile ? <div style={{ color: "#999", fontSize: 12 }}>No depth data in this mesh</div> : null}
+                  {profile ? (
+                    <div style={{ marginTop: 4 }}>
+                      <svg width={260} height={70} style={{ background: "#111", borderRadius: 4 }}>
+                        {profilePolylines(profile, 260, 70).map((pts, k) => (
+                          <polyline key={k} points={pts} fill="none" stroke="#ffd700" strokeWidth={1.5} />
+                        ))}
+                      </svg>
+                      <div style={{ color: "#999", fontSize: 12 }}>
+                        Relief along the line: {profile.reliefPx !== null ? formatLength(profile.reliefPx, calibration) : "—"}{" "}
+                        (up = nearer the camera)
+                      </div>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
           <div style={{ marginTop: 12 }}>
             <h4>Injection points</h4>
             {points.length === 0 ? <div>No points yet</div> : null}
@@ -4709,7 +6342,7 @@ export default function FaceCanvas(): JSX.Element {
 
                   <div style={{ marginTop: 6 }}>
                     <div>
-                      x: {Math.round(p.x)}, y: {Math.round(p.y)}
+                      x: {Math.round(p.x)}, y: {Math.round(p.y)} <span style={{ color: "#999", fontSize: 12 }}>(image px)</span>
                       <button onClick={() => updatePointMeta(p.id, { x: Math.round(p.x), y: Math.round(p.y) })} style={{ marginLeft: 6 }}>
                         refresh
                       </button>
@@ -4735,9 +6368,25 @@ export default function FaceCanvas(): JSX.Element {
                       />
                     </div>
 
+                    <div style={{ marginTop: 6 }}>
+                      <label style={{ display: "block", fontSize: 12, marginBottom: 4 }}>Note</label>
+                      <input
+                        value={p.note ?? ""}
+                        placeholder="e.g. depth, technique"
+                        onChange={(e) => updatePointMeta(p.id, { note: e.target.value })}
+                        style={{ width: "100%", padding: "6px 8px", borderRadius: 4 }}
+                      />
+                    </div>
+
                     <div style={{ marginTop: 6, color: "#ccc", fontSize: 13 }}>
-                      Offset to midline: {off ? `${sideLabel(off.side)} ${off.dist}px` : "—"}
+                      Offset to midline: {off ? `${sideLabel(off.side)} ${formatLength(off.dist, calibration)}` : "—"}
+                      {off && offsetsUnreliable ? <span style={{ color: "#f5a623" }}> — unreliable (non-frontal pose)</span> : null}
                     </div>
+                    {(pointLocations[p.id] ?? []).map((loc) => (
+                      <div key={loc.landmark} style={{ color: "#ccc", fontSize: 13 }}>
+                        {loc.text}
+                      </div>
+                    ))}
                   </div>
                 </div>
               );
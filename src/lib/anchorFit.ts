@@ -0,0 +1,108 @@
+// src/lib/anchorFit.ts
+// Fallback when the model finds no face: the user clicks a few anchors and we fit a sparse,
+// approximate FaceMesh from a frontal template so midline / eye-line / thirds / presets still work.
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine } from "./transform.ts";
+import type { LandmarkName } from "./landmarkRegistry.ts";
+import { lmIndex } from "./landmarkRegistry.ts";
+
+export type AnchorId = "eye_outer_r" | "eye_outer_l" | "nose_tip" | "mouth_r" | "mouth_l" | "chin";
+
+// click order; "right"/"left" are the patient's (patient's right is on the image left)
+export const ANCHORS: { id: AnchorId; label: string; landmark: LandmarkName }[] = [
+  { id: "eye_outer_r", label: "Right eye outer corner (image left)", landmark: "exocanthion_right" },
+  { id: "eye_outer_l", label: "Left eye outer corner (image right)", landmark: "exocanthion_left" },
+  { id: "nose_tip", label: "Nose tip", landmark: "pronasale" },
+  { id: "mouth_r", label: "Right mouth corner (image left)", landmark: "cheilion_right" },
+  { id: "mouth_l", label: "Left mouth corner (image right)", landmark: "cheilion_left" },
+  { id: "chin", label: "Chin (lowest point)", landmark: "menton" },
+];
+
+// frontal template in "half outer-canthal width" units: outer eye corners at (-1,0) / (1,0), y down.
+// Averaged adult proportions; only the landmarks the overlays and presets use are included.
+const TEMPLATE: Partial<Record<LandmarkName, [number, number]>> = {
+  forehead_top: [0, -1.55],
+  glabella: [0, -0.3],
+  exocanthion_right: [-1, 0],
+  exocanthion_left: [1, 0],
+  endocanthion_right: [-0.36, 0.02],
+  endocanthion_left: [0.36, 0.02],
+  pronasale: [0, 0.95],
+  paranasal_right: [-0.38, 1.02],
+  paranasal_left: [0.38, 1.02],
+  subnasale: [0, 1.12],
+  philtrum_top: [0, 1.25],
+  stomion_superius: [0, 1.45],
+  stomion_inferius: [0, 1.52],
+  inner_lip_corner_right: [-0.42, 1.48],
+  inner_lip_corner_left: [0.42, 1.48],
+  cheilion_right: [-0.5, 1.48],
+  cheilion_left: [0.5, 1.48],
+  lower_lip_right_1: [-0.4, 1.6],
+  perioral_right: [-0.52, 1.55],
+  perioral_left: [0.52, 1.55],
+  malar_right: [-0.62, 0.7],
+  malar_left: [0.62, 0.7],
+  chin_contour_right_2: [-0.35, 2.25],
+  chin_contour_left_2: [0.35, 2.25],
+  menton: [0, 2.35],
+};
+
+// same length as a refined mesh so index checks behave as with a real detection
+const MESH_SIZE = 478;
+
+// solve the 3x3 system m * x = r (Cramer's rule; fine for this size)
+function solve3(m: number[][], r: number[]): number[] | null {
+  const det = (a: number[][]) =>
+    a[0][0] * (a[1][1] * a[2][2] - a[1][2] * a[2][1]) -
+    a[0][1] * (a[1][0] * a[2][2] - a[1][2] * a[2][0]) +
+    a[0][2] * (a[1][0] * a[2][1] - a[1][1] * a[2][0]);
+  const d = det(m);
+  if (Math.abs(d) < 1e-12) return null;
+  return [0, 1, 2].map((col) => det(m.map((row, i) => row.map((v, j) => (j === col ? r[i] : v)))) / d);
+}
+
+// least-squares affine mapping template points -> clicked points
+export function fitAffine(src: Vec2[], dst: Vec2[]): Affine | null {
+  if (src.length < 3 || src.length !== dst.length) return null;
+  const m = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  const rx = [0, 0, 0];
+  const ry = [0, 0, 0];
+  src.forEach((p, i) => {
+    const row = [p.x, p.y, 1];
+    for (let r = 0; r < 3; r++) {
+      for (let c = 0; c < 3; c++) m[r][c] += row[r] * row[c];
+      rx[r] += row[r] * dst[i].x;
+      ry[r] += row[r] * dst[i].y;
+    }
+  });
+  const sx = solve3(m, rx);
+  const sy = solve3(m, ry);
+  if (!sx || !sy) return null;
+  return { a: sx[0], c: sx[1], e: sx[2], b: sy[0], d: sy[1], f: sy[2] };
+}
+
+// sparse mesh: template indices filled in, everything else left empty (overlays skip missing points)
+export function fitAnchorMesh(anchors: Partial<Record<AnchorId, Vec2>>): Landmark[] | null {
+  const placed = ANCHORS.filter((a) => anchors[a.id]);
+  if (placed.length < ANCHORS.length) return null;
+  const fit = fitAffine(
+    placed.map((a) => ({ x: TEMPLATE[a.landmark]![0], y: TEMPLATE[a.landmark]![1] })),
+    placed.map((a) => anchors[a.id]!)
+  );
+  if (!fit) return null;
+
+  const mesh: Landmark[] = new Array(MESH_SIZE);
+  for (const [name, [u, v]] of Object.entries(TEMPLATE) as [LandmarkName, [number, number]][]) {
+    const p = applyAffine(fit, { x: u, y: v });
+    mesh[lmIndex(name)] = [p.x, p.y, 0];
+  }
+  // the clicked anchors are exact; keep them rather than their fitted approximation
+  for (const a of placed) mesh[lmIndex(a.landmark)] = [anchors[a.id]!.x, anchors[a.id]!.y, 0];
+  return mesh;
+}
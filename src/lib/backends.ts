@@ -0,0 +1,43 @@
+// src/lib/backends.ts
+// Backend chain configuration; the TF side (initBackendChain) lives in src/workers/tfBackends.ts
+export type BackendName = "webgl" | "wasm" | "cpu";
+
+export type BackendAttempt = {
+  name: BackendName;
+  ok: boolean;
+  ms: number;
+  error?: string;
+};
+
+export type BackendStatus = {
+  state: "idle" | "loading" | "ready" | "failed";
+  active: BackendName | null;
+  // total time spent walking the chain, in ms
+  loadMs: number;
+  attempts: BackendAttempt[];
+  error?: string;
+};
+
+export const KNOWN_BACKENDS: BackendName[] = ["webgl", "wasm", "cpu"];
+export const DEFAULT_BACKEND_CHAIN: BackendName[] = ["webgl", "wasm", "cpu"];
+
+export const INITIAL_BACKEND_STATUS: BackendStatus = { state: "idle", active: null, loadMs: 0, attempts: [] };
+
+// helper: parse "webgl,wasm,cpu" -> ["webgl","wasm","cpu"], dropping unknown / duplicate names
+export function parseBackendChain(value: string | null | undefined): BackendName[] | null {
+  if (!value) return null;
+  const out: BackendName[] = [];
+  for (const raw of value.split(",")) {
+    const name = raw.trim().toLowerCase() as BackendName;
+    if (KNOWN_BACKENDS.includes(name) && !out.includes(name)) out.push(name);
+  }
+  return out.length > 0 ? out : null;
+}
+
+// chain precedence: ?backends=... query param, then VITE_TF_BACKENDS, then the default order
+export function resolveBackendChain(): BackendName[] {
+  const fromQuery =
+    typeof location !== "undefined" ? parseBackendChain(new URLSearchParams(location.search).get("backends")) : null;
+  const fromEnv = parseBackendChain(import.meta.env.VITE_TF_BACKENDS as string | undefined);
+  return fromQuery ?? fromEnv ?? DEFAULT_BACKEND_CHAIN;
+}
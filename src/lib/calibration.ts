@@ -0,0 +1,76 @@
+// src/lib/calibration.ts
+// px -> mm scale from anatomy the mesh already gives us (iris landmarks need refineLandmarks: true)
+import type { Landmark } from "./detector.ts";
+import type { LandmarkName } from "./landmarkRegistry.ts";
+import { getLandmark } from "./landmarkRegistry.ts";
+
+export type CalibrationSource = "iris" | "ipd" | "none";
+
+export type Calibration = {
+  source: CalibrationSource;
+  // millimetres per image pixel; null when uncalibrated
+  mmPerPx: number | null;
+  // human-readable basis, recorded with the session
+  detail: string;
+};
+
+// horizontal visible iris diameter is remarkably constant across adults
+export const AVERAGE_IRIS_DIAMETER_MM = 11.7;
+export const DEFAULT_IPD_MM = 63;
+
+// iris centres plus the two horizontal contour points of each iris
+const RIGHT_IRIS: { center: LandmarkName; h: [LandmarkName, LandmarkName] } = {
+  center: "iris_center_right",
+  h: ["iris_right_edge_a", "iris_right_edge_b"],
+};
+const LEFT_IRIS: { center: LandmarkName; h: [LandmarkName, LandmarkName] } = {
+  center: "iris_center_left",
+  h: ["iris_left_edge_a", "iris_left_edge_b"],
+};
+
+export const UNCALIBRATED: Calibration = { source: "none", mmPerPx: null, detail: "uncalibrated (pixels)" };
+
+function dist(a: Landmark | undefined, b: Landmark | undefined) {
+  if (!a || !b) return null;
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+export function irisCalibration(landmarks: Landmark[], irisMm = AVERAGE_IRIS_DIAMETER_MM): Calibration | null {
+  const diameters = [RIGHT_IRIS, LEFT_IRIS]
+    .map((iris) => dist(getLandmark(landmarks, iris.h[0]), getLandmark(landmarks, iris.h[1])))
+    .filter((d): d is number => d !== null && d > 0);
+  if (diameters.length === 0) return null;
+  const px = diameters.reduce((s, d) => s + d, 0) / diameters.length;
+  return {
+    source: "iris",
+    mmPerPx: irisMm / px,
+    detail: `iris diameter ${irisMm} mm = ${px.toFixed(1)} px (${diameters.length === 2 ? "both eyes" : "one eye"})`,
+  };
+}
+
+export function ipdCalibration(landmarks: Landmark[], ipdMm: number): Calibration | null {
+  const px = dist(getLandmark(landmarks, RIGHT_IRIS.center), getLandmark(landmarks, LEFT_IRIS.center));
+  if (!px || !(ipdMm > 0)) return null;
+  return { source: "ipd", mmPerPx: ipdMm / px, detail: `interpupillary distance ${ipdMm} mm = ${px.toFixed(1)} px` };
+}
+
+export function resolveCalibration(landmarks: Landmark[], source: CalibrationSource, ipdMm: number): Calibration {
+  if (source === "iris") return irisCalibration(landmarks) ?? UNCALIBRATED;
+  if (source === "ipd") return ipdCalibration(landmarks, ipdMm) ?? UNCALIBRATED;
+  return UNCALIBRATED;
+}
+
+// image px -> display string in calibrated units when available
+export function formatLength(px: number, cal: Calibration, digits = 1) {
+  if (cal.mmPerPx === null) return `${Math.round(px)}px`;
+  return `${(px * cal.mmPerPx).toFixed(digits)} mm`;
+}
+
+export function formatArea(px2: number, cal: Calibration, digits = 1) {
+  if (cal.mmPerPx === null) return `${Math.round(px2)}px²`;
+  return `${(px2 * cal.mmPerPx * cal.mmPerPx).toFixed(digits)} mm²`;
+}
+
+export function toMm(px: number, cal: Calibration) {
+  return cal.mmPerPx === null ? null : px * cal.mmPerPx;
+}
@@ -0,0 +1,204 @@
+// src/lib/depth.ts
+// Depth (z) from the 3D mesh: triangulated surface, colour ramp, iso-depth contours and profiles along a line.
+// FaceMesh z is relative (smaller = closer to the camera) and roughly on the same scale as image px.
+import type { Landmark } from "./detector.ts";
+import type { Vec2 } from "./transform.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+
+export type Triangle = [number, number, number];
+
+export type DepthMesh = {
+  // landmark indices
+  triangles: Triangle[];
+  // nearest (most projecting) and furthest z
+  zMin: number;
+  zMax: number;
+};
+
+export type DepthSample = { distPx: number; projectionPx: number | null };
+
+export type DepthProfile = {
+  samples: DepthSample[];
+  lengthPx: number;
+  // spread between the most and least projecting sample
+  reliefPx: number | null;
+};
+
+export const DEPTH_CONTOUR_STEPS = 12;
+const PROFILE_SAMPLES = 64;
+// triangles with an edge longer than this multiple of the median edge span a gap in the mesh
+const MAX_EDGE_FACTOR = 3;
+
+type Circ = { a: number; b: number; c: number; cx: number; cy: number; r2: number };
+
+function circumcircle(pts: Vec2[], a: number, b: number, c: number): Circ {
+  const A = pts[a];
+  const B = pts[b];
+  const C = pts[c];
+  const d = 2 * (A.x * (B.y - C.y) + B.x * (C.y - A.y) + C.x * (A.y - B.y));
+  if (d === 0) return { a, b, c, cx: 0, cy: 0, r2: Infinity };
+  const a2 = A.x * A.x + A.y * A.y;
+  const b2 = B.x * B.x + B.y * B.y;
+  const c2 = C.x * C.x + C.y * C.y;
+  const cx = (a2 * (B.y - C.y) + b2 * (C.y - A.y) + c2 * (A.y - B.y)) / d;
+  const cy = (a2 * (C.x - B.x) + b2 * (A.x - C.x) + c2 * (B.x - A.x)) / d;
+  return { a, b, c, cx, cy, r2: (A.x - cx) ** 2 + (A.y - cy) ** 2 };
+}
+
+// Bowyer-Watson; returns triangles as indices into `pts`
+export function delaunay(pts: Vec2[]): Triangle[] {
+  const n = pts.length;
+  if (n < 3) return [];
+  const xs = pts.map((p) => p.x);
+  const ys = pts.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  // super triangle, appended after the real points
+  const all = [
+    ...pts,
+    { x: minX - 10 * span, y: minY - 10 * span },
+    { x: minX + 20 * span, y: minY - 10 * span },
+    { x: minX - 10 * span, y: minY + 20 * span },
+  ];
+  let tris: Circ[] = [circumcircle(all, n, n + 1, n + 2)];
+  const seen = new Set<string>();
+  for (let i = 0; i < n; i++) {
+    const p = all[i];
+    // coincident points would produce degenerate triangles
+    const key = `${p.x.toFixed(3)},${p.y.toFixed(3)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const edges = new Map<string, [number, number]>();
+    const keep: Circ[] = [];
+    for (const t of tris) {
+      if ((p.x - t.cx) ** 2 + (p.y - t.cy) ** 2 < t.r2) {
+        for (const [u, v] of [
+          [t.a, t.b],
+          [t.b, t.c],
+          [t.c, t.a],
+        ]) {
+          const k = u < v ? `${u}-${v}` : `${v}-${u}`;
+          if (edges.has(k)) edges.delete(k);
+          else edges.set(k, [u, v]);
+        }
+      } else {
+        keep.push(t);
+      }
+    }
+    for (const [u, v] of edges.values()) keep.push(circumcircle(all, u, v, i));
+    tris = keep;
+  }
+  return tris.filter((t) => t.a < n && t.b < n && t.c < n).map((t) => [t.a, t.b, t.c]);
+}
+
+export function hasDepth(landmarks: Landmark[]): boolean {
+  return landmarks.some((lm) => lm && (lm[2] ?? 0) !== 0);
+}
+
+// null when the mesh carries no depth (e.g. the manual-anchor fit)
+export function buildDepthMesh(landmarks: Landmark[]): DepthMesh | null {
+  if (!hasDepth(landmarks)) return null;
+  const idx = landmarks.flatMap((lm, i) => (lm ? [i] : []));
+  const pts = idx.map((i) => ({ x: landmarks[i][0], y: landmarks[i][1] }));
+  const raw = delaunay(pts);
+  const len = (a: number, b: number) => Math.hypot(pts[b].x - pts[a].x, pts[b].y - pts[a].y);
+  const longest = raw.map(([a, b, c]) => Math.max(len(a, b), len(b, c), len(c, a)));
+  const sorted = [...longest].sort((x, y) => x - y);
+  const limit = (sorted[Math.floor(sorted.length / 2)] ?? 0) * MAX_EDGE_FACTOR;
+  const triangles = raw.filter((_, k) => longest[k] <= limit).map((t) => t.map((j) => idx[j]) as Triangle);
+  const zs = idx.map((i) => landmarks[i][2] ?? 0);
+  return { triangles, zMin: Math.min(...zs), zMax: Math.max(...zs) };
+}
+
+// 0 = furthest, 1 = nearest
+export function projectionT(mesh: DepthMesh, z: number): number {
+  return mesh.zMax === mesh.zMin ? 0.5 : (mesh.zMax - z) / (mesh.zMax - mesh.zMin);
+}
+
+// blue (far) -> red (near)
+export function depthColor(t: number, alpha = 1) {
+  const c = Math.max(0, Math.min(1, t));
+  return `hsla(${Math.round(240 * (1 - c))}, 85%, 50%, ${alpha})`;
+}
+
+// t: projection level (0 = furthest, 1 = nearest)
+export type DepthContour = { t: number; segments: [Vec2, Vec2][] };
+
+// marching triangles: segments where the surface crosses each of `steps` evenly spaced depths
+export function depthContours(mesh: DepthMesh, landmarks: Landmark[], steps = DEPTH_CONTOUR_STEPS): DepthContour[] {
+  const levels: DepthContour[] = [];
+  for (let s = 1; s < steps; s++) {
+    const z = mesh.zMax - ((mesh.zMax - mesh.zMin) * s) / steps;
+    const segments: [Vec2, Vec2][] = [];
+    for (const tri of mesh.triangles) {
+      const cross: Vec2[] = [];
+      for (const [u, v] of [
+        [tri[0], tri[1]],
+        [tri[1], tri[2]],
+        [tri[2], tri[0]],
+      ]) {
+        const zu = landmarks[u][2] ?? 0;
+        const zv = landmarks[v][2] ?? 0;
+        if ((zu - z) * (zv - z) < 0) {
+          const k = (z - zu) / (zv - zu);
+          const [xu, yu] = landmarks[u];
+          const [xv, yv] = landmarks[v];
+          cross.push({ x: xu + k * (xv - xu), y: yu + k * (yv - yu) });
+        }
+      }
+      if (cross.length === 2) segments.push([cross[0], cross[1]]);
+    }
+    levels.push({ t: s / steps, segments });
+  }
+  return levels;
+}
+
+// z interpolated over the triangle containing p (barycentric); null outside the mesh
+export function sampleDepth(mesh: DepthMesh, landmarks: Landmark[], p: Vec2): number | null {
+  for (const [a, b, c] of mesh.triangles) {
+    const A = landmarks[a];
+    const B = landmarks[b];
+    const C = landmarks[c];
+    const det = (B[1] - C[1]) * (A[0] - C[0]) + (C[0] - B[0]) * (A[1] - C[1]);
+    if (det === 0) continue;
+    const l1 = ((B[1] - C[1]) * (p.x - C[0]) + (C[0] - B[0]) * (p.y - C[1])) / det;
+    const l2 = ((C[1] - A[1]) * (p.x - C[0]) + (A[0] - C[0]) * (p.y - C[1])) / det;
+    const l3 = 1 - l1 - l2;
+    if (l1 >= -1e-9 && l2 >= -1e-9 && l3 >= -1e-9) return l1 * (A[2] ?? 0) + l2 * (B[2] ?? 0) + l3 * (C[2] ?? 0);
+  }
+  return null;
+}
+
+// projection along a -> b, measured forward from the furthest point of the mesh
+export function depthProfile(mesh: DepthMesh, landmarks: Landmark[], a: Vec2, b: Vec2, samples = PROFILE_SAMPLES): DepthProfile {
+  const lengthPx = Math.hypot(b.x - a.x, b.y - a.y);
+  const out: DepthSample[] = [];
+  for (let k = 0; k <= samples; k++) {
+    const t = k / samples;
+    const z = sampleDepth(mesh, landmarks, { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) });
+    out.push({ distPx: t * lengthPx, projectionPx: z === null ? null : mesh.zMax - z });
+  }
+  const vals = out.flatMap((s) => (s.projectionPx === null ? [] : [s.projectionPx]));
+  return { samples: out, lengthPx, reliefPx: vals.length > 1 ? Math.max(...vals) - Math.min(...vals) : null };
+}
+
+// projection of a few sites relative to the medial canthi, where a frontal photo hides volume loss
+export const DEPTH_SITES: { name: LandmarkName; label: string }[] = [
+  { name: "pronasale", label: "Nose tip" },
+  { name: "malar_right", label: "Right cheek" },
+  { name: "malar_left", label: "Left cheek" },
+  { name: "pogonion", label: "Chin" },
+];
+
+export function siteProjections(landmarks: Landmark[]): { name: LandmarkName; label: string; projectionPx: number }[] | null {
+  if (!hasDepth(landmarks)) return null;
+  const enR = getLandmark(landmarks, "endocanthion_right");
+  const enL = getLandmark(landmarks, "endocanthion_left");
+  if (!enR || !enL) return null;
+  const ref = ((enR[2] ?? 0) + (enL[2] ?? 0)) / 2;
+  return DEPTH_SITES.flatMap(({ name, label }) => {
+    const lm = getLandmark(landmarks, name);
+    return lm ? [{ name, label, projectionPx: ref - (lm[2] ?? 0) }] : [];
+  });
+}
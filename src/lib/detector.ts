@@ -0,0 +1,160 @@
+// src/lib/detector.ts
+import * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
+
+export type Landmark = [number, number, number?];
+
+export type FaceBox = { xMin: number; yMin: number; width: number; height: number };
+
+// 468 = plain FaceMesh, 478 = refineLandmarks (adds 10 iris points),
+// manual-anchors = sparse mesh fitted from user-clicked anchors (src/lib/anchorFit.ts)
+export type MeshVersion = "facemesh-468" | "facemesh-478" | "manual-anchors" | "unknown";
+
+export type FacePrediction = {
+  landmarks: Landmark[];
+  box: FaceBox | null;
+  score: number | null;
+  meshVersion: MeshVersion;
+};
+
+export type DetectorInput = HTMLCanvasElement | HTMLImageElement | ImageBitmap | ImageData | OffscreenCanvas;
+
+export interface LandmarkDetector {
+  readonly kind: "tfjs" | "legacy" | "mock";
+  estimate(input: DetectorInput): Promise<FacePrediction[]>;
+  dispose(): void;
+}
+
+export type DetectorOptions = {
+  maxFaces: number;
+  refineLandmarks: boolean;
+  detectorModelUrl?: unknown;
+  landmarkModelUrl?: unknown;
+};
+
+// loose shapes returned by the different package versions
+type RawKeypoint = { x: number; y: number; z?: number };
+type RawPrediction = {
+  scaledMesh?: Landmark[];
+  mesh?: Landmark[];
+  keypoints?: RawKeypoint[];
+  keypoints3D?: Landmark[];
+  box?: { xMin: number; yMin: number; width: number; height: number };
+  boundingBox?: { topLeft: [number, number]; bottomRight: [number, number] };
+  score?: number;
+  faceInViewConfidence?: number;
+};
+
+type RawDetector = {
+  estimateFaces(...args: unknown[]): Promise<RawPrediction[]>;
+  dispose?(): void;
+};
+
+// the package ships without usable types (see src/types/global.d.ts)
+const fld = faceLandmarksDetection as unknown as {
+  SupportedModels?: { MediaPipeFaceMesh: unknown };
+  MediaPipeFaceMesh?: unknown;
+  SupportedPackages?: { mediapipeFacemesh?: unknown };
+  createDetector?(model: unknown, config: unknown): Promise<RawDetector>;
+  load?(pkg: unknown, config: unknown): Promise<RawDetector>;
+};
+
+export function meshVersionFor(count: number): MeshVersion {
+  if (count === 468) return "facemesh-468";
+  if (count === 478) return "facemesh-478";
+  return "unknown";
+}
+
+// helper: axis-aligned bounds of a mesh (fallback when the model reports no box)
+export function landmarkBounds(mesh: Landmark[]): FaceBox | null {
+  if (mesh.length === 0) return null;
+  let minX = Infinity,
+    minY = Infinity,
+    maxX = -Infinity,
+    maxY = -Infinity;
+  for (const lm of mesh) {
+    if (!lm) continue;
+    if (lm[0] < minX) minX = lm[0];
+    if (lm[0] > maxX) maxX = lm[0];
+    if (lm[1] < minY) minY = lm[1];
+    if (lm[1] > maxY) maxY = lm[1];
+  }
+  return { xMin: minX, yMin: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// single place that knows every prediction shape we have seen
+export function normalizePrediction(raw: unknown): FacePrediction | null {
+  if (!raw || typeof raw !== "object") return null;
+  const face = raw as RawPrediction;
+
+  let landmarks: Landmark[] | null = null;
+  if (Array.isArray(face.scaledMesh)) landmarks = face.scaledMesh.map((p) => [p[0], p[1], p[2] ?? 0]);
+  else if (Array.isArray(face.mesh)) landmarks = face.mesh.map((p) => [p[0], p[1], p[2] ?? 0]);
+  else if (Array.isArray(face.keypoints)) landmarks = face.keypoints.map((kp) => [kp.x, kp.y, kp.z ?? 0]);
+  else if (Array.isArray(face.keypoints3D)) landmarks = face.keypoints3D.map((p) => [p[0], p[1], p[2] ?? 0]);
+  if (!landmarks) {
+    console.warn("Unknown prediction shape", raw);
+    return null;
+  }
+
+  let box: FaceBox | null = null;
+  if (face.box) {
+    box = { xMin: face.box.xMin, yMin: face.box.yMin, width: face.box.width, height: face.box.height };
+  } else if (face.boundingBox) {
+    const [x0, y0] = face.boundingBox.topLeft;
+    const [x1, y1] = face.boundingBox.bottomRight;
+    box = { xMin: x0, yMin: y0, width: x1 - x0, height: y1 - y0 };
+  } else {
+    box = landmarkBounds(landmarks);
+  }
+
+  const score = typeof face.score === "number" ? face.score : typeof face.faceInViewConfidence === "number" ? face.faceInViewConfidence : null;
+
+  return { landmarks, box, score, meshVersion: meshVersionFor(landmarks.length) };
+}
+
+// helper: rescale a prediction made on a resized copy back to the source image's pixels
+export function scalePrediction(p: FacePrediction, sx: number, sy: number): FacePrediction {
+  if (sx === 1 && sy === 1) return p;
+  return {
+    ...p,
+    landmarks: p.landmarks.map((lm) => [lm[0] * sx, lm[1] * sy, lm[2] === undefined ? undefined : lm[2] * sx]),
+    box: p.box ? { xMin: p.box.xMin * sx, yMin: p.box.yMin * sy, width: p.box.width * sx, height: p.box.height * sy } : null,
+  };
+}
+
+function normalizeAll(raw: RawPrediction[] | null | undefined): FacePrediction[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizePrediction).filter(Boolean) as FacePrediction[];
+}
+
+// adapter: @tensorflow-models/face-landmarks-detection >= 1.0 (createDetector)
+export async function createTfjsDetector(options: DetectorOptions): Promise<LandmarkDetector> {
+  const model = fld.SupportedModels?.MediaPipeFaceMesh ?? fld.MediaPipeFaceMesh;
+  if (!fld.createDetector || !model) throw new Error("createDetector API not available");
+  const raw = await fld.createDetector(model, { runtime: "tfjs", ...options });
+  return {
+    kind: "tfjs",
+    async estimate(input) {
+      return normalizeAll(await raw.estimateFaces(input, { flipHorizontal: false }));
+    },
+    dispose() {
+      raw.dispose?.();
+    },
+  };
+}
+
+// adapter: legacy 0.0.x packages (load() + estimateFaces({ input })). It always fetches its weights from the CDN
+// and has no iris refinement, so the offline worker doesn't fall back to it.
+export async function loadLegacyDetector(options: DetectorOptions): Promise<LandmarkDetector> {
+  if (!fld.load) throw new Error("legacy load() API not available");
+  const raw = await fld.load(fld.SupportedPackages?.mediapipeFacemesh ?? fld.SupportedPackages, { maxFaces: options.maxFaces });
+  return {
+    kind: "legacy",
+    async estimate(input) {
+      return normalizeAll(await raw.estimateFaces({ input }));
+    },
+    dispose() {
+      raw.dispose?.();
+    },
+  };
+}
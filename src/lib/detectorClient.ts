@@ -0,0 +1,95 @@
+// src/lib/detectorClient.ts
+// Main-thread side of src/workers/detector.worker.ts
+import type { BackendName } from "./backends.ts";
+import type { FacePrediction } from "./detector.ts";
+import type { WorkerRequest, WorkerResponse } from "../workers/protocol.ts";
+
+export type DetectorEvent = Exclude<WorkerResponse, { type: "result" | "cancelled" | "detect-error" }>;
+
+export class DetectionCancelledError extends Error {
+  constructor() {
+    super("detection cancelled");
+    this.name = "DetectionCancelledError";
+  }
+}
+
+export type DetectorClient = {
+  // resolves with the faces in source-image pixels; rejects with DetectionCancelledError when aborted
+  detect(bitmap: ImageBitmap, opts: { maxSide: number; signal?: AbortSignal }): Promise<{ faces: FacePrediction[]; ms: number }>;
+  // drop the IndexedDB copies of the model weights
+  clearModelCache(): void;
+  dispose(): void;
+};
+
+export function createDetectorClient(
+  config: { backends: BackendName[]; maxFaces: number },
+  onEvent: (event: DetectorEvent) => void
+): DetectorClient {
+  const worker = new Worker(new URL("../workers/detector.worker.ts", import.meta.url), { type: "module" });
+  const pending = new Map<number, { resolve: (r: { faces: FacePrediction[]; ms: number }) => void; reject: (err: Error) => void }>();
+  let nextId = 1;
+
+  function send(msg: WorkerRequest, transfer: Transferable[] = []) {
+    worker.postMessage(msg, transfer);
+  }
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    switch (msg.type) {
+      case "result":
+        pending.get(msg.requestId)?.resolve({ faces: msg.faces, ms: msg.ms });
+        pending.delete(msg.requestId);
+        break;
+      case "cancelled":
+        pending.get(msg.requestId)?.reject(new DetectionCancelledError());
+        pending.delete(msg.requestId);
+        break;
+      case "detect-error":
+        pending.get(msg.requestId)?.reject(new Error(msg.error));
+        pending.delete(msg.requestId);
+        break;
+      default:
+        onEvent(msg);
+    }
+  };
+  worker.onerror = (e) => {
+    console.error("Detector worker error:", e);
+    onEvent({ type: "init-error", error: e.message || "detector worker crashed" });
+  };
+
+  send({ type: "init", backends: config.backends, maxFaces: config.maxFaces });
+
+  return {
+    detect(bitmap, { maxSide, signal }) {
+      const requestId = nextId++;
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          bitmap.close();
+          reject(new DetectionCancelledError());
+          return;
+        }
+        pending.set(requestId, { resolve, reject });
+        // settle here rather than waiting for the worker: a result may already be on its way back
+        signal?.addEventListener(
+          "abort",
+          () => {
+            if (!pending.has(requestId)) return;
+            pending.delete(requestId);
+            reject(new DetectionCancelledError());
+            send({ type: "cancel", requestId });
+          },
+          { once: true }
+        );
+        send({ type: "detect", requestId, bitmap, maxSide }, [bitmap]);
+      });
+    },
+    clearModelCache() {
+      send({ type: "clear-cache" });
+    },
+    dispose() {
+      for (const p of pending.values()) p.reject(new DetectionCancelledError());
+      pending.clear();
+      worker.terminate();
+    },
+  };
+}
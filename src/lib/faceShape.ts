@@ -0,0 +1,133 @@
+// src/lib/faceShape.ts
+// Face-shape classification (oval / round / square / heart / oblong) from forehead, cheekbone and jaw widths
+// and face length. Every shape is a short list of threshold rules, so the result can be explained and tuned.
+import type { Landmark } from "./detector.ts";
+import type { Affine } from "./transform.ts";
+import { applyAffine } from "./transform.ts";
+import { getLandmark } from "./landmarkRegistry.ts";
+import type { LowerFaceAnalysis } from "./lowerFace.ts";
+import type { FacialThirds } from "./thirds.ts";
+
+export type FaceShape = "oval" | "round" | "square" | "heart" | "oblong";
+
+export type FaceShapeRules = {
+  // face length : cheekbone width; at or above longMin the face is long, below shortMax it is short
+  longMin: number;
+  shortMax: number;
+  // jaw : cheekbone width at or above this is a broad jaw
+  broadJawMin: number;
+  // forehead : cheekbone width at or above this is a broad forehead
+  broadForeheadMin: number;
+  // jaw : forehead width at or below this is a jaw that tapers from the forehead
+  taperMax: number;
+};
+
+// starting points for a trichion-to-menton length; editable in the panel
+export const DEFAULT_FACE_SHAPE_RULES: FaceShapeRules = {
+  longMin: 1.5,
+  shortMax: 1.3,
+  broadJawMin: 0.85,
+  broadForeheadMin: 0.9,
+  taperMax: 0.8,
+};
+
+export type FaceShapeRatios = {
+  lengthToWidth: number;
+  foreheadToCheek: number;
+  jawToCheek: number;
+  jawToForehead: number;
+};
+
+export type ShapeCriterion = { text: string; pass: boolean };
+
+export type ShapeScore = { shape: FaceShape; label: string; score: number; criteria: ShapeCriterion[] };
+
+export type FaceShapeResult = {
+  shape: FaceShape;
+  // best first
+  scores: ShapeScore[];
+  ratios: FaceShapeRatios;
+  // face frame px
+  widthsPx: { forehead: number; cheekbone: number; jaw: number; length: number };
+  // face length depends on the hairline, which is only estimated unless placed by hand
+  trichionEstimated: boolean;
+};
+
+export const FACE_SHAPES: { id: FaceShape; label: string }[] = [
+  { id: "oval", label: "Oval" },
+  { id: "round", label: "Round" },
+  { id: "square", label: "Square" },
+  { id: "heart", label: "Heart" },
+  { id: "oblong", label: "Oblong" },
+];
+
+function criteriaFor(shape: FaceShape, r: FaceShapeRatios, rules: FaceShapeRules): ShapeCriterion[] {
+  const f = (v: number) => v.toFixed(2);
+  const long = { text: `length:width ${f(r.lengthToWidth)} ≥ ${rules.longMin}`, pass: r.lengthToWidth >= rules.longMin };
+  const short = { text: `length:width ${f(r.lengthToWidth)} < ${rules.shortMax}`, pass: r.lengthToWidth < rules.shortMax };
+  const medium = {
+    text: `length:width ${f(r.lengthToWidth)} in ${rules.shortMax}–${rules.longMin}`,
+    pass: r.lengthToWidth >= rules.shortMax && r.lengthToWidth < rules.longMin,
+  };
+  const broadJaw = { text: `jaw:cheekbone ${f(r.jawToCheek)} ≥ ${rules.broadJawMin}`, pass: r.jawToCheek >= rules.broadJawMin };
+  const narrowJaw = { text: `jaw:cheekbone ${f(r.jawToCheek)} < ${rules.broadJawMin}`, pass: r.jawToCheek < rules.broadJawMin };
+  const broadForehead = {
+    text: `forehead:cheekbone ${f(r.foreheadToCheek)} ≥ ${rules.broadForeheadMin}`,
+    pass: r.foreheadToCheek >= rules.broadForeheadMin,
+  };
+  const taper = { text: `jaw:forehead ${f(r.jawToForehead)} ≤ ${rules.taperMax}`, pass: r.jawToForehead <= rules.taperMax };
+  const noTaper = { text: `jaw:forehead ${f(r.jawToForehead)} > ${rules.taperMax}`, pass: r.jawToForehead > rules.taperMax };
+  switch (shape) {
+    case "oval":
+      return [medium, narrowJaw, noTaper];
+    case "round":
+      return [short, narrowJaw];
+    case "square":
+      return [short, broadJaw, broadForehead];
+    case "heart":
+      return [broadForehead, taper];
+    case "oblong":
+      return [long, noTaper];
+  }
+}
+
+// faceLevel: image px -> face frame (eye-line horizontal); jaw width is the bigonial width of the lower-face analysis
+export function classifyFaceShape(
+  landmarks: Landmark[],
+  faceLevel: Affine,
+  thirds: FacialThirds | null,
+  lowerFace: LowerFaceAnalysis | null,
+  rules: FaceShapeRules
+): FaceShapeResult | null {
+  const ftR = getLandmark(landmarks, "frontotemporale_right");
+  const ftL = getLandmark(landmarks, "frontotemporale_left");
+  const zyR = getLandmark(landmarks, "zygion_right");
+  const zyL = getLandmark(landmarks, "zygion_left");
+  if (!ftR || !ftL || !zyR || !zyL || !thirds || !lowerFace) return null;
+  const fx = (lm: Landmark) => applyAffine(faceLevel, { x: lm[0], y: lm[1] }).x;
+  const forehead = Math.abs(fx(ftL) - fx(ftR));
+  const cheekbone = Math.abs(fx(zyL) - fx(zyR));
+  const jaw = lowerFace.bigonialPx;
+  const length = thirds.heights[0] + thirds.heights[1] + thirds.heights[2];
+  if (!(cheekbone > 0) || !(forehead > 0)) return null;
+
+  const ratios: FaceShapeRatios = {
+    lengthToWidth: length / cheekbone,
+    foreheadToCheek: forehead / cheekbone,
+    jawToCheek: jaw / cheekbone,
+    jawToForehead: jaw / forehead,
+  };
+  // share of rules met; ties go to the shape with more rules, then to FACE_SHAPES order
+  const scores = FACE_SHAPES.map(({ id, label }) => {
+    const criteria = criteriaFor(id, ratios, rules);
+    return { shape: id, label, score: criteria.filter((c) => c.pass).length / criteria.length, criteria };
+  }).sort((a, b) => b.score - a.score || b.criteria.length - a.criteria.length);
+
+  return {
+    shape: scores[0].shape,
+    scores,
+    ratios,
+    widthsPx: { forehead, cheekbone, jaw, length },
+    trichionEstimated: thirds.trichionSource === "estimated",
+  };
+}
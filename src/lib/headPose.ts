@@ -0,0 +1,62 @@
+// src/lib/headPose.ts
+import type { Landmark } from "./detector.ts";
+import { getLandmark } from "./landmarkRegistry.ts";
+
+// degrees. Conventions (patient's point of view, frontal photo):
+// yaw > 0: head turned to the patient's left; pitch > 0: chin up; roll > 0: head tilted toward the patient's left shoulder
+export type HeadPose = { yaw: number; pitch: number; roll: number };
+
+export type PoseTolerance = HeadPose;
+
+export const DEFAULT_POSE_TOLERANCE: PoseTolerance = { yaw: 8, pitch: 12, roll: 5 };
+
+type Vec3 = { x: number; y: number; z: number };
+
+function v3(lm: Landmark): Vec3 {
+  return { x: lm[0], y: lm[1], z: lm[2] ?? 0 };
+}
+function sub3(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+function dot3(a: Vec3, b: Vec3) {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+function norm3(a: Vec3): Vec3 | null {
+  const l = Math.hypot(a.x, a.y, a.z);
+  return l > 0 ? { x: a.x / l, y: a.y / l, z: a.z / l } : null;
+}
+
+const DEG = 180 / Math.PI;
+
+// face frame from the mesh: X along the outer eye corners, Y down the face (forehead -> menton),
+// orthogonalised against X. For a frontal, level face both axes line up with the image axes.
+export function estimateHeadPose(landmarks: Landmark[]): HeadPose | null {
+  const rEye = getLandmark(landmarks, "exocanthion_right");
+  const lEye = getLandmark(landmarks, "exocanthion_left");
+  const top = getLandmark(landmarks, "forehead_top");
+  const chin = getLandmark(landmarks, "menton");
+  if (!rEye || !lEye || !top || !chin) return null;
+
+  const xAxis = norm3(sub3(v3(lEye), v3(rEye)));
+  const down = sub3(v3(chin), v3(top));
+  if (!xAxis) return null;
+  const k = dot3(down, xAxis);
+  const yAxis = norm3({ x: down.x - k * xAxis.x, y: down.y - k * xAxis.y, z: down.z - k * xAxis.z });
+  if (!yAxis) return null;
+
+  return {
+    yaw: Math.atan2(xAxis.z, Math.hypot(xAxis.x, xAxis.y)) * DEG,
+    pitch: Math.atan2(-yAxis.z, Math.hypot(yAxis.x, yAxis.y)) * DEG,
+    roll: Math.atan2(xAxis.y, xAxis.x) * DEG,
+  };
+}
+
+// one message per axis outside its tolerance; empty when the photo is usable as a frontal view
+export function poseWarnings(pose: HeadPose | null, tol: PoseTolerance = DEFAULT_POSE_TOLERANCE): string[] {
+  if (!pose) return [];
+  const out: string[] = [];
+  if (Math.abs(pose.yaw) > tol.yaw) out.push(`Head turned ${pose.yaw > 0 ? "left" : "right"} ${Math.abs(pose.yaw).toFixed(1)}° (limit ${tol.yaw}°)`);
+  if (Math.abs(pose.pitch) > tol.pitch) out.push(`Chin ${pose.pitch > 0 ? "up" : "down"} ${Math.abs(pose.pitch).toFixed(1)}° (limit ${tol.pitch}°)`);
+  if (Math.abs(pose.roll) > tol.roll) out.push(`Head tilted ${pose.roll > 0 ? "left" : "right"} ${Math.abs(pose.roll).toFixed(1)}° (limit ${tol.roll}°)`);
+  return out;
+}
@@ -0,0 +1,37 @@
+// src/lib/landmarkOverrides.ts
+// Manual corrections are kept apart from the raw detection so they can be reviewed and reset.
+import type { Landmark } from "./detector.ts";
+import type { LandmarkName } from "./landmarkRegistry.ts";
+import { lmIndex } from "./landmarkRegistry.ts";
+
+// landmark index -> corrected position (image px)
+export type LandmarkOverrides = Record<number, Landmark>;
+
+// landmarks most overlays and presets depend on; offered in "key landmarks" edit mode
+export const KEY_LANDMARKS: { name: LandmarkName; index: number; label: string }[] = (
+  [
+    { name: "forehead_top", label: "Forehead (top of midline)" },
+    { name: "menton", label: "Chin (bottom of midline)" },
+    { name: "exocanthion_right", label: "Right eye outer corner" },
+    { name: "exocanthion_left", label: "Left eye outer corner" },
+    { name: "endocanthion_right", label: "Right eye inner corner" },
+    { name: "endocanthion_left", label: "Left eye inner corner" },
+    { name: "pronasale", label: "Nose tip" },
+    { name: "stomion_superius", label: "Upper lip centre" },
+    { name: "stomion_inferius", label: "Lower lip centre" },
+    { name: "cheilion_right", label: "Right mouth corner" },
+    { name: "cheilion_left", label: "Left mouth corner" },
+    { name: "inner_lip_corner_right", label: "Right inner lip corner" },
+    { name: "inner_lip_corner_left", label: "Left inner lip corner" },
+  ] as { name: LandmarkName; label: string }[]
+).map((k) => ({ ...k, index: lmIndex(k.name) }));
+
+export function applyLandmarkOverrides(raw: Landmark[], overrides: LandmarkOverrides | undefined): Landmark[] {
+  if (!overrides || Object.keys(overrides).length === 0) return raw;
+  const out = raw.slice();
+  for (const [key, lm] of Object.entries(overrides)) {
+    const idx = Number(key);
+    if (idx >= 0 && idx < out.length) out[idx] = lm;
+  }
+  return out;
+}
@@ -0,0 +1,178 @@
+// src/lib/landmarkRegistry.ts
+// Named landmarks -> MediaPipe FaceMesh indices. Overlays, presets and analyses reference landmarks
+// by these names only, so the anatomy can be reviewed (and fixed) in one place.
+// "right" / "left" are the patient's: patient's right is on the image left.
+import type { Landmark, MeshVersion } from "./detector.ts";
+
+export type LandmarkRegion = "midline" | "eye" | "iris" | "brow" | "nose" | "lip" | "cheek" | "contour";
+
+export type LandmarkDef = {
+  index: number;
+  region: LandmarkRegion;
+  description: string;
+  // positions marked approx have not been checked against the canonical mesh
+  approx?: boolean;
+};
+
+// mesh the indices were taken from; iris points (>= 468) need refineLandmarks: true
+export const REGISTRY_MESH_VERSION: MeshVersion = "facemesh-478";
+
+export const LANDMARK_REGISTRY = {
+  // midline, top to bottom
+  forehead_top: { index: 10, region: "midline", description: "Upper forehead, top of the detected mesh" },
+  forehead_mid: { index: 151, region: "midline", description: "Mid forehead" },
+  glabella: { index: 9, region: "midline", description: "Between the brows" },
+  glabella_lower: { index: 8, region: "midline", description: "Below glabella, above nasion" },
+  nasion: { index: 168, region: "midline", description: "Deepest point of the nasal bridge" },
+  nasal_bridge: { index: 6, region: "nose", description: "Nasal bridge, below nasion" },
+  nasal_bridge_lower: { index: 197, region: "nose", description: "Nasal bridge, lower" },
+  nasal_dorsum_upper: { index: 195, region: "nose", description: "Upper nasal dorsum" },
+  nasal_dorsum: { index: 5, region: "nose", description: "Lower nasal dorsum" },
+  nasal_tip_upper: { index: 4, region: "nose", description: "Supratip" },
+  pronasale: { index: 1, region: "nose", description: "Nose tip" },
+  infratip: { index: 19, region: "nose", description: "Infratip lobule" },
+  columella: { index: 94, region: "nose", description: "Columella" },
+  subnasale: { index: 2, region: "nose", description: "Columella base" },
+  philtrum_top: { index: 164, region: "lip", description: "Upper philtrum, just below subnasale" },
+  labrale_superius: { index: 0, region: "lip", description: "Upper lip vermilion border, midline" },
+  stomion_superius: { index: 13, region: "lip", description: "Upper lip, inner midline" },
+  stomion_inferius: { index: 14, region: "lip", description: "Lower lip, inner midline" },
+  labrale_inferius: { index: 17, region: "lip", description: "Lower lip vermilion border, midline" },
+  mentolabial_sulcus: { index: 18, region: "midline", description: "Mentolabial sulcus", approx: true },
+  chin_upper: { index: 200, region: "midline", description: "Chin, upper midline", approx: true },
+  pogonion: { index: 199, region: "midline", description: "Most prominent point of the chin", approx: true },
+  gnathion: { index: 175, region: "midline", description: "Chin, between pogonion and menton", approx: true },
+  menton: { index: 152, region: "midline", description: "Lowest point of the chin" },
+
+  // eyes
+  exocanthion_right: { index: 33, region: "eye", description: "Right eye outer corner" },
+  exocanthion_left: { index: 263, region: "eye", description: "Left eye outer corner" },
+  endocanthion_right: { index: 133, region: "eye", description: "Right eye inner corner" },
+  endocanthion_left: { index: 362, region: "eye", description: "Left eye inner corner" },
+
+  // irises (refined mesh only)
+  iris_center_right: { index: 468, region: "iris", description: "Right iris centre" },
+  iris_right_edge_a: { index: 469, region: "iris", description: "Right iris, horizontal edge" },
+  iris_right_edge_b: { index: 471, region: "iris", description: "Right iris, opposite horizontal edge" },
+  iris_center_left: { index: 473, region: "iris", description: "Left iris centre" },
+  iris_left_edge_a: { index: 474, region: "iris", description: "Left iris, horizontal edge" },
+  iris_left_edge_b: { index: 476, region: "iris", description: "Left iris, opposite horizontal edge" },
+
+  // brows; upper edge numbered lateral (0) -> medial (7)
+  brow_upper_right_0: { index: 156, region: "brow", description: "Right brow, upper edge (lateral end)" },
+  brow_upper_right_1: { index: 70, region: "brow", description: "Right brow, upper edge (lateral)" },
+  brow_upper_right_2: { index: 63, region: "brow", description: "Right brow, upper edge" },
+  brow_upper_right_3: { index: 105, region: "brow", description: "Right brow, upper edge" },
+  brow_upper_right_4: { index: 66, region: "brow", description: "Right brow, upper edge (medial)" },
+  brow_upper_right_5: { index: 107, region: "brow", description: "Right brow, upper edge (medial)" },
+  brow_upper_right_6: { index: 55, region: "brow", description: "Right brow, medial end" },
+  brow_upper_right_7: { index: 193, region: "brow", description: "Right brow, medial end (lower)" },
+  brow_upper_left_0: { index: 383, region: "brow", description: "Left brow, upper edge (lateral end)" },
+  brow_upper_left_1: { index: 300, region: "brow", description: "Left brow, upper edge (lateral)" },
+  brow_upper_left_2: { index: 293, region: "brow", description: "Left brow, upper edge" },
+  brow_upper_left_3: { index: 334, region: "brow", description: "Left brow, upper edge" },
+  brow_upper_left_4: { index: 296, region: "brow", description: "Left brow, upper edge (medial)" },
+  brow_upper_left_5: { index: 336, region: "brow", description: "Left brow, upper edge (medial)" },
+  brow_upper_left_6: { index: 285, region: "brow", description: "Left brow, medial end" },
+  brow_upper_left_7: { index: 417, region: "brow", description: "Left brow, medial end (lower)" },
+
+  // nose
+  alar_right: { index: 98, region: "nose", description: "Right alar base" },
+  alar_left: { index: 327, region: "nose", description: "Left alar base" },
+  alare_right: { index: 129, region: "nose", description: "Widest point of the right ala", approx: true },
+  alare_left: { index: 358, region: "nose", description: "Widest point of the left ala", approx: true },
+  paranasal_right: { index: 64, region: "nose", description: "Beside the right ala", approx: true },
+  paranasal_left: { index: 294, region: "nose", description: "Beside the left ala", approx: true },
+
+  // lips / perioral
+  cheilion_right: { index: 61, region: "lip", description: "Right oral commissure" },
+  cheilion_left: { index: 291, region: "lip", description: "Left oral commissure" },
+  inner_lip_corner_right: { index: 78, region: "lip", description: "Right inner lip corner" },
+  inner_lip_corner_left: { index: 308, region: "lip", description: "Left inner lip corner" },
+  cupid_bow_peak_right: { index: 37, region: "lip", description: "Cupid's bow peak, right", approx: true },
+  cupid_bow_peak_left: { index: 267, region: "lip", description: "Cupid's bow peak, left", approx: true },
+  upper_lip_right_1: { index: 185, region: "lip", description: "Upper lip vermilion border, right (lateral)" },
+  upper_lip_right_2: { index: 40, region: "lip", description: "Upper lip vermilion border, right" },
+  upper_lip_right_3: { index: 39, region: "lip", description: "Upper lip vermilion border, right (medial)" },
+  upper_lip_left_3: { index: 269, region: "lip", description: "Upper lip vermilion border, left (medial)" },
+  upper_lip_left_2: { index: 270, region: "lip", description: "Upper lip vermilion border, left" },
+  upper_lip_left_1: { index: 409, region: "lip", description: "Upper lip vermilion border, left (lateral)" },
+  lower_lip_right_1: { index: 146, region: "lip", description: "Lower lip vermilion border, right (lateral)" },
+  lower_lip_right_2: { index: 91, region: "lip", description: "Lower lip vermilion border, right" },
+  lower_lip_right_3: { index: 181, region: "lip", description: "Lower lip vermilion border, right" },
+  lower_lip_right_4: { index: 84, region: "lip", description: "Lower lip vermilion border, right (medial)" },
+  lower_lip_left_4: { index: 314, region: "lip", description: "Lower lip vermilion border, left (medial)" },
+  lower_lip_left_3: { index: 405, region: "lip", description: "Lower lip vermilion border, left" },
+  lower_lip_left_2: { index: 321, region: "lip", description: "Lower lip vermilion border, left" },
+  lower_lip_left_1: { index: 375, region: "lip", description: "Lower lip vermilion border, left (lateral)" },
+  perioral_right: { index: 57, region: "lip", description: "Below/lateral to the right commissure", approx: true },
+  perioral_left: { index: 287, region: "lip", description: "Below/lateral to the left commissure", approx: true },
+
+  // cheeks
+  malar_right: { index: 50, region: "cheek", description: "Malar prominence, right", approx: true },
+  malar_left: { index: 280, region: "cheek", description: "Malar prominence, left", approx: true },
+
+  // face contour (silhouette)
+  frontotemporale_right: { index: 54, region: "contour", description: "Forehead contour at the temple, right", approx: true },
+  frontotemporale_left: { index: 284, region: "contour", description: "Forehead contour at the temple, left", approx: true },
+  zygion_right: { index: 234, region: "contour", description: "Widest point of the face, right" },
+  cheek_contour_right: { index: 93, region: "contour", description: "Face contour below zygion, on the posterior ramus, right" },
+  jaw_contour_right: { index: 58, region: "contour", description: "Jawline, right" },
+  zygion_left: { index: 454, region: "contour", description: "Widest point of the face, left" },
+  cheek_contour_left: { index: 323, region: "contour", description: "Face contour below zygion, on the posterior ramus, left" },
+  jaw_contour_left: { index: 288, region: "contour", description: "Jawline, left" },
+  chin_contour_right_2: { index: 176, region: "contour", description: "Chin contour, right" },
+  chin_contour_left_2: { index: 400, region: "contour", description: "Chin contour, left" },
+} satisfies Record<string, LandmarkDef>;
+
+export type LandmarkName = keyof typeof LANDMARK_REGISTRY;
+
+export function lmIndex(name: LandmarkName): number {
+  return LANDMARK_REGISTRY[name].index;
+}
+
+export function lmIndices(names: readonly LandmarkName[]): number[] {
+  return names.map(lmIndex);
+}
+
+export function getLandmark(landmarks: Landmark[], name: LandmarkName): Landmark | undefined {
+  return landmarks[LANDMARK_REGISTRY[name].index];
+}
+
+// helper: named landmarks -> {x,y} points; null if any is missing
+export function namesToXY(names: readonly LandmarkName[], landmarks: Landmark[] | null) {
+  if (!landmarks || landmarks.length === 0) return null;
+  const pts: { x: number; y: number }[] = [];
+  for (const name of names) {
+    const lm = getLandmark(landmarks, name);
+    if (!lm || typeof lm[0] !== "number") return null;
+    pts.push({ x: lm[0], y: lm[1] });
+  }
+  return pts;
+}
+
+export function nameForIndex(index: number): LandmarkName | null {
+  for (const [name, def] of Object.entries(LANDMARK_REGISTRY) as [LandmarkName, LandmarkDef][]) {
+    if (def.index === index) return name;
+  }
+  return null;
+}
+
+export type RegistryValidation = {
+  meshSize: number;
+  // names whose index the detected mesh doesn't have (e.g. iris points on a 468-point mesh)
+  outOfRange: LandmarkName[];
+  // indices registered under more than one name
+  duplicates: { index: number; names: LandmarkName[] }[];
+};
+
+export function validateRegistry(meshSize: number): RegistryValidation {
+  const outOfRange: LandmarkName[] = [];
+  const byIndex = new Map<number, LandmarkName[]>();
+  for (const [name, def] of Object.entries(LANDMARK_REGISTRY) as [LandmarkName, LandmarkDef][]) {
+    if (def.index >= meshSize) outOfRange.push(name);
+    byIndex.set(def.index, [...(byIndex.get(def.index) ?? []), name]);
+  }
+  const duplicates = [...byIndex.entries()].filter(([, names]) => names.length > 1).map(([index, names]) => ({ index, names }));
+  return { meshSize, outOfRange, duplicates };
+}
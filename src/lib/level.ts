@@ -0,0 +1,22 @@
+// src/lib/level.ts
+import type { Landmark } from "./detector.ts";
+import { rotateAbout, type Affine } from "./transform.ts";
+import { getLandmark } from "./landmarkRegistry.ts";
+
+// in-plane angle of the eye-line (outer canthus to outer canthus) in radians; 0 when the eyes are level
+export function eyeLineAngle(landmarks: Landmark[]): number | null {
+  const r = getLandmark(landmarks, "exocanthion_right");
+  const l = getLandmark(landmarks, "exocanthion_left");
+  if (!r || !l) return null;
+  return Math.atan2(l[1] - r[1], l[0] - r[0]);
+}
+
+// image px -> "face frame" px: rotates about the eye-line centre so the eye-line is horizontal
+// (and the forehead -> menton midline roughly vertical). Null when the eye corners are missing.
+export function levelAffine(landmarks: Landmark[]): Affine | null {
+  const angle = eyeLineAngle(landmarks);
+  if (angle === null) return null;
+  const r = getLandmark(landmarks, "exocanthion_right")!;
+  const l = getLandmark(landmarks, "exocanthion_left")!;
+  return rotateAbout(-angle, (r[0] + l[0]) / 2, (r[1] + l[1]) / 2);
+}
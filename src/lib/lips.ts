@@ -0,0 +1,176 @@
+// src/lib/lips.ts
+// Lip analysis from the FaceMesh lip contours: vermilion ratio, width, Cupid's bow and commissure tilt.
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine } from "./transform.ts";
+import { getLandmark, namesToXY, type LandmarkName } from "./landmarkRegistry.ts";
+
+// outer vermilion contours, patient's right -> left
+const UPPER_OUTER: LandmarkName[] = [
+  "cheilion_right",
+  "upper_lip_right_1",
+  "upper_lip_right_2",
+  "upper_lip_right_3",
+  "cupid_bow_peak_right",
+  "labrale_superius",
+  "cupid_bow_peak_left",
+  "upper_lip_left_3",
+  "upper_lip_left_2",
+  "upper_lip_left_1",
+  "cheilion_left",
+];
+const LOWER_OUTER: LandmarkName[] = [
+  "cheilion_right",
+  "lower_lip_right_1",
+  "lower_lip_right_2",
+  "lower_lip_right_3",
+  "lower_lip_right_4",
+  "labrale_inferius",
+  "lower_lip_left_4",
+  "lower_lip_left_3",
+  "lower_lip_left_2",
+  "lower_lip_left_1",
+  "cheilion_left",
+];
+
+export type Range = { min: number; max: number };
+
+export type LipIdeals = {
+  // upper : lower vermilion height
+  upperLowerRatio: Range;
+  // lip width : intercanthal width
+  widthToIntercanthal: Range;
+  // height difference between the Cupid's bow peaks, % of upper vermilion height
+  bowAsymmetryPct: number;
+  // commissure line vs eye-line, degrees
+  commissureTiltDeg: number;
+};
+
+// commonly quoted aesthetic targets; editable in the panel
+export const DEFAULT_LIP_IDEALS: LipIdeals = {
+  upperLowerRatio: { min: 0.5, max: 0.75 },
+  widthToIntercanthal: { min: 1.4, max: 1.7 },
+  bowAsymmetryPct: 15,
+  commissureTiltDeg: 2,
+};
+
+export type LipMetric = { id: string; label: string; value: number; text: string; ideal: string; ok: boolean };
+
+export type LipAnalysis = {
+  upperHeightPx: number;
+  lowerHeightPx: number;
+  widthPx: number;
+  metrics: LipMetric[];
+  // overlay geometry, image px
+  upperContour: Vec2[];
+  lowerContour: Vec2[];
+  upperHeightLine: [Vec2, Vec2];
+  lowerHeightLine: [Vec2, Vec2];
+  commissureLine: [Vec2, Vec2];
+  bowPeaks: [Vec2, Vec2];
+};
+
+function xy(landmarks: Landmark[], name: LandmarkName): Vec2 | null {
+  const lm = getLandmark(landmarks, name);
+  return lm ? { x: lm[0], y: lm[1] } : null;
+}
+
+const dist = (a: Vec2, b: Vec2) => Math.hypot(b.x - a.x, b.y - a.y);
+const inRange = (v: number, r: Range) => v >= r.min && v <= r.max;
+
+// faceLevel: image px -> face frame (eye-line horizontal); eyeAngle: eye-line angle in radians
+export function analyzeLips(landmarks: Landmark[], faceLevel: Affine, eyeAngle: number | null, ideals: LipIdeals): LipAnalysis | null {
+  const ls = xy(landmarks, "labrale_superius");
+  const sts = xy(landmarks, "stomion_superius");
+  const sti = xy(landmarks, "stomion_inferius");
+  const li = xy(landmarks, "labrale_inferius");
+  const chR = xy(landmarks, "cheilion_right");
+  const chL = xy(landmarks, "cheilion_left");
+  const enR = xy(landmarks, "endocanthion_right");
+  const enL = xy(landmarks, "endocanthion_left");
+  const bowR = xy(landmarks, "cupid_bow_peak_right");
+  const bowL = xy(landmarks, "cupid_bow_peak_left");
+  const upperContour = namesToXY(UPPER_OUTER, landmarks);
+  const lowerContour = namesToXY(LOWER_OUTER, landmarks);
+  if (!ls || !sts || !sti || !li || !chR || !chL || !enR || !enL || !bowR || !bowL || !upperContour || !lowerContour) return null;
+
+  const upperHeightPx = dist(ls, sts);
+  const lowerHeightPx = dist(sti, li);
+  const widthPx = dist(chR, chL);
+  const intercanthal = dist(enR, enL);
+  if (!(lowerHeightPx > 0) || !(intercanthal > 0) || !(upperHeightPx > 0)) return null;
+
+  const metrics: LipMetric[] = [];
+  const ratio = upperHeightPx / lowerHeightPx;
+  metrics.push({
+    id: "upper_lower_ratio",
+    label: "Upper : lower vermilion",
+    value: ratio,
+    text: `1 : ${(1 / ratio).toFixed(2)} (${ratio.toFixed(2)})`,
+    ideal: `${ideals.upperLowerRatio.min}–${ideals.upperLowerRatio.max}`,
+    ok: inRange(ratio, ideals.upperLowerRatio),
+  });
+
+  const widthRatio = widthPx / intercanthal;
+  metrics.push({
+    id: "width_intercanthal",
+    label: "Lip width : intercanthal",
+    value: widthRatio,
+    text: widthRatio.toFixed(2),
+    ideal: `${ideals.widthToIntercanthal.min}–${ideals.widthToIntercanthal.max}`,
+    ok: inRange(widthRatio, ideals.widthToIntercanthal),
+  });
+
+  // Cupid's bow: peak heights above the upper stomion, and distance from the philtral midline, in the face frame
+  const f = (p: Vec2) => applyAffine(faceLevel, p);
+  const mid = f(ls).x;
+  const base = f(sts).y;
+  const hR = base - f(bowR).y;
+  const hL = base - f(bowL).y;
+  const bowAsym = (Math.abs(hR - hL) / upperHeightPx) * 100;
+  metrics.push({
+    id: "bow_height",
+    label: "Cupid's bow peak height difference",
+    value: bowAsym,
+    text: `${bowAsym.toFixed(0)}% (${hR > hL ? "R" : "L"} higher)`,
+    ideal: `≤ ${ideals.bowAsymmetryPct}%`,
+    ok: bowAsym <= ideals.bowAsymmetryPct,
+  });
+  const wR = Math.abs(f(bowR).x - mid);
+  const wL = Math.abs(f(bowL).x - mid);
+  const bowSpread = Math.max(wR, wL) > 0 ? (Math.min(wR, wL) / Math.max(wR, wL)) * 100 : 100;
+  metrics.push({
+    id: "bow_spread",
+    label: "Cupid's bow peak spacing symmetry",
+    value: bowSpread,
+    text: `${bowSpread.toFixed(0)}%`,
+    ideal: `≥ ${100 - ideals.bowAsymmetryPct}%`,
+    ok: bowSpread >= 100 - ideals.bowAsymmetryPct,
+  });
+
+  if (eyeAngle !== null) {
+    // > 0 when the left commissure sits higher than the right one, relative to the eye-line
+    const tilt = -((Math.atan2(chL.y - chR.y, chL.x - chR.x) - eyeAngle) * 180) / Math.PI;
+    metrics.push({
+      id: "commissure_tilt",
+      label: "Commissure tilt vs eye-line",
+      value: tilt,
+      text: `${Math.abs(tilt).toFixed(1)}°${Math.abs(tilt) >= 0.05 ? (tilt > 0 ? " (L up)" : " (R up)") : ""}`,
+      ideal: `≤ ${ideals.commissureTiltDeg}°`,
+      ok: Math.abs(tilt) <= ideals.commissureTiltDeg,
+    });
+  }
+
+  return {
+    upperHeightPx,
+    lowerHeightPx,
+    widthPx,
+    metrics,
+    upperContour,
+    lowerContour,
+    upperHeightLine: [ls, sts],
+    lowerHeightLine: [sti, li],
+    commissureLine: [chR, chL],
+    bowPeaks: [bowR, bowL],
+  };
+}
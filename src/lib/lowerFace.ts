@@ -0,0 +1,166 @@
+// src/lib/lowerFace.ts
+// Lower-face contour: jawline fitted from the mesh silhouette, bigonial / chin width, taper and gonial angle.
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine, invertAffine } from "./transform.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+import { DEFAULT_POSE_TOLERANCE, estimateHeadPose, poseWarnings, type PoseTolerance } from "./headPose.ts";
+
+// lower silhouette, patient's right (ear level) -> menton -> left. This is the mesh's outline ring, searched
+// point by point for the jaw angle, so it lives here as topology; named anatomy on it is looked up by name below.
+const JAW_SILHOUETTE = [234, 93, 132, 58, 172, 136, 150, 149, 176, 148, 152, 377, 400, 378, 379, 365, 397, 288, 361, 323, 454];
+// positions within JAW_SILHOUETTE searched for the jaw angle on each side
+const GONION_SEARCH = { right: [2, 3, 4, 5, 6], left: [14, 15, 16, 17, 18] };
+// chin width is taken between these contour points (either side of menton)
+const CHIN_POINTS: [LandmarkName, LandmarkName] = ["chin_contour_right_2", "chin_contour_left_2"];
+// upper end of the ramus arm for the gonial angle: posterior ramus border above the jaw angle
+const RAMUS_POINTS: [LandmarkName, LandmarkName] = ["cheek_contour_right", "cheek_contour_left"];
+
+export type LowerFaceAnalysis = {
+  // image px
+  silhouette: Vec2[];
+  // fitted mandibular border between the jaw angles, sampled for drawing
+  jawline: Vec2[];
+  // RMS distance of the silhouette points from the fitted border (px)
+  fitRmsPx: number;
+  gonion: { right: Vec2; left: Vec2 };
+  chin: { right: Vec2; left: Vec2 };
+  bigonialPx: number;
+  chinWidthPx: number;
+  bizygomaticPx: number | null;
+  // chin width : bigonial width
+  taperRatio: number;
+  // bigonial : bizygomatic width
+  jawToCheekRatio: number | null;
+  // interior angle between ramus (posterior border above the angle) and mandibular body (towards menton),
+  // from the 3D mesh; null without depth or when the pose is outside the frontal tolerance
+  gonialAngleDeg: { right: number; left: number } | null;
+  gonialAngleWithheld: "no depth" | "non-frontal pose" | null;
+};
+
+// least-squares polynomial y = sum c_k x^k (normal equations, Gaussian elimination)
+function polyfit(xs: number[], ys: number[], degree: number): number[] | null {
+  const n = degree + 1;
+  const m: number[][] = Array.from({ length: n }, () => new Array(n + 1).fill(0));
+  for (let i = 0; i < xs.length; i++) {
+    const pow: number[] = [1];
+    for (let k = 1; k < 2 * n; k++) pow.push(pow[k - 1] * xs[i]);
+    for (let r = 0; r < n; r++) {
+      for (let c = 0; c < n; c++) m[r][c] += pow[r + c];
+      m[r][n] += pow[r] * ys[i];
+    }
+  }
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / m[i][i]);
+}
+
+const polyval = (coef: number[], x: number) => coef.reduce((s, c, k) => s + c * x ** k, 0);
+
+// the contour point furthest from the chord between the ends of the search window
+function cornerIndex(pts: Vec2[], window: number[]): number {
+  const a = pts[window[0] - 1];
+  const b = pts[window[window.length - 1] + 1];
+  const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  let best = window[0];
+  let bestD = -Infinity;
+  for (const i of window) {
+    const d = Math.abs((b.x - a.x) * (a.y - pts[i].y) - (a.x - pts[i].x) * (b.y - a.y)) / len;
+    if (d > bestD) {
+      bestD = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function angle3d(vertex: Landmark, a: Landmark, b: Landmark): number {
+  const u = [a[0] - vertex[0], a[1] - vertex[1], (a[2] ?? 0) - (vertex[2] ?? 0)];
+  const v = [b[0] - vertex[0], b[1] - vertex[1], (b[2] ?? 0) - (vertex[2] ?? 0)];
+  const dot = u[0] * v[0] + u[1] * v[1] + u[2] * v[2];
+  const lu = Math.hypot(u[0], u[1], u[2]);
+  const lv = Math.hypot(v[0], v[1], v[2]);
+  if (lu === 0 || lv === 0) return 0;
+  return (Math.acos(Math.max(-1, Math.min(1, dot / (lu * lv)))) * 180) / Math.PI;
+}
+
+// faceLevel: image px -> face frame (eye-line horizontal)
+export function analyzeLowerFace(
+  landmarks: Landmark[],
+  faceLevel: Affine,
+  poseTolerance: PoseTolerance = DEFAULT_POSE_TOLERANCE
+): LowerFaceAnalysis | null {
+  const raw = JAW_SILHOUETTE.map((i) => landmarks[i]);
+  if (raw.some((lm) => !lm)) return null;
+  const silhouette = raw.map((lm) => ({ x: lm[0], y: lm[1] }));
+  const face = silhouette.map((p) => applyAffine(faceLevel, p));
+  const fromFace = invertAffine(faceLevel);
+
+  const gR = cornerIndex(face, GONION_SEARCH.right);
+  const gL = cornerIndex(face, GONION_SEARCH.left);
+
+  // mandibular border between the jaw angles is single-valued in x: fit a quartic in normalised x
+  const border = face.slice(gR, gL + 1);
+  const x0 = (border[0].x + border[border.length - 1].x) / 2;
+  const half = Math.abs(border[border.length - 1].x - border[0].x) / 2 || 1;
+  const coef = polyfit(
+    border.map((p) => (p.x - x0) / half),
+    border.map((p) => p.y),
+    4
+  );
+  if (!coef) return null;
+  const fitRmsPx = Math.sqrt(border.reduce((s, p) => s + (polyval(coef, (p.x - x0) / half) - p.y) ** 2, 0) / border.length);
+  const jawline: Vec2[] = [];
+  for (let k = 0; k <= 40; k++) {
+    const u = -1 + (2 * k) / 40;
+    jawline.push(applyAffine(fromFace, { x: x0 + u * half, y: polyval(coef, u) }));
+  }
+
+  const chinR = getLandmark(landmarks, CHIN_POINTS[0]);
+  const chinL = getLandmark(landmarks, CHIN_POINTS[1]);
+  const menton = getLandmark(landmarks, "menton");
+  const ramusR = getLandmark(landmarks, RAMUS_POINTS[0]);
+  const ramusL = getLandmark(landmarks, RAMUS_POINTS[1]);
+  if (!chinR || !chinL || !menton || !ramusR || !ramusL) return null;
+  const gonion = { right: silhouette[gR], left: silhouette[gL] };
+  const chin = { right: { x: chinR[0], y: chinR[1] }, left: { x: chinL[0], y: chinL[1] } };
+  // widths across the face frame x axis, so roll doesn't shorten them
+  const widthX = (a: Vec2, b: Vec2) => Math.abs(applyAffine(faceLevel, b).x - applyAffine(faceLevel, a).x);
+  const bigonialPx = widthX(gonion.right, gonion.left);
+  const chinWidthPx = widthX(chin.right, chin.left);
+  const zR = getLandmark(landmarks, "zygion_right");
+  const zL = getLandmark(landmarks, "zygion_left");
+  const bizygomaticPx = zR && zL ? widthX({ x: zR[0], y: zR[1] }, { x: zL[0], y: zL[1] }) : null;
+
+  // ramus runs from the jaw angle up its posterior border, the body from the jaw angle to menton
+  // a frontal projection can't be trusted for the angle once the head is turned
+  const hasDepth = raw.some((lm) => (lm[2] ?? 0) !== 0);
+  const frontal = poseWarnings(estimateHeadPose(landmarks), poseTolerance).length === 0;
+  const gonialAngleWithheld = !hasDepth ? "no depth" : !frontal ? "non-frontal pose" : null;
+  const gonialAngleDeg =
+    gonialAngleWithheld === null ? { right: angle3d(raw[gR], ramusR, menton), left: angle3d(raw[gL], ramusL, menton) } : null;
+
+  return {
+    silhouette,
+    jawline,
+    fitRmsPx,
+    gonion,
+    chin,
+    bigonialPx,
+    chinWidthPx,
+    bizygomaticPx,
+    taperRatio: bigonialPx > 0 ? chinWidthPx / bigonialPx : 0,
+    jawToCheekRatio: bizygomaticPx ? bigonialPx / bizygomaticPx : null,
+    gonialAngleDeg,
+    gonialAngleWithheld,
+  };
+}
@@ -0,0 +1,87 @@
+// src/lib/measurements.ts
+// User-drawn measurements (distance, three-point angle, polygon area, depth profile line); points are in image px.
+import type { Landmark } from "./detector.ts";
+import type { Vec2 } from "./transform.ts";
+import { formatArea, formatLength, toMm, type Calibration } from "./calibration.ts";
+
+export type MeasurementKind = "distance" | "angle" | "area" | "profile";
+
+export type Measurement = {
+  id: string;
+  kind: MeasurementKind;
+  // distance / profile: [a, b]; angle: [a, vertex, c]; area: polygon vertices
+  points: Vec2[];
+  label?: string;
+};
+
+export const MEASUREMENT_KINDS: { id: MeasurementKind; label: string; minPoints: number; maxPoints: number | null }[] = [
+  { id: "distance", label: "Distance", minPoints: 2, maxPoints: 2 },
+  { id: "angle", label: "Angle", minPoints: 3, maxPoints: 3 },
+  { id: "area", label: "Area", minPoints: 3, maxPoints: null },
+  { id: "profile", label: "Depth profile", minPoints: 2, maxPoints: 2 },
+];
+
+export function measurementKind(kind: MeasurementKind) {
+  return MEASUREMENT_KINDS.find((k) => k.id === kind)!;
+}
+
+// closest landmark within `radius` image px; the same rule the annotation points snap with
+export function nearestLandmark(landmarks: Landmark[], p: Vec2, radius: number): { index: number; point: Vec2 } | null {
+  let best: { idx: number; dist: number } | null = null;
+  for (let i = 0; i < landmarks.length; i++) {
+    const lm = landmarks[i];
+    if (!lm) continue;
+    const d = Math.hypot(lm[0] - p.x, lm[1] - p.y);
+    if (d <= radius && (!best || d < best.dist)) best = { idx: i, dist: d };
+  }
+  if (!best) return null;
+  const lm = landmarks[best.idx];
+  return { index: best.idx, point: { x: lm[0], y: lm[1] } };
+}
+
+// interior angle at `vertex` in degrees
+export function angleAt(a: Vec2, vertex: Vec2, c: Vec2): number {
+  const u = { x: a.x - vertex.x, y: a.y - vertex.y };
+  const v = { x: c.x - vertex.x, y: c.y - vertex.y };
+  const lu = Math.hypot(u.x, u.y);
+  const lv = Math.hypot(v.x, v.y);
+  if (lu === 0 || lv === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, (u.x * v.x + u.y * v.y) / (lu * lv)));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+// shoelace formula, px²
+export function polygonArea(pts: Vec2[]): number {
+  let s = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i];
+    const q = pts[(i + 1) % pts.length];
+    s += p.x * q.y - q.x * p.y;
+  }
+  return Math.abs(s) / 2;
+}
+
+export type MeasurementValue = {
+  // px, degrees or px² depending on kind
+  value: number;
+  // mm or mm² when calibrated; degrees are unit-free
+  valueMm: number | null;
+  unit: "px" | "deg" | "px2";
+  text: string;
+};
+
+export function measurementValue(m: Measurement, cal: Calibration): MeasurementValue | null {
+  if (m.points.length < measurementKind(m.kind).minPoints) return null;
+  // a profile's value is its length; the depth samples come from src/lib/depth.ts
+  if (m.kind === "distance" || m.kind === "profile") {
+    const [a, b] = m.points;
+    const px = Math.hypot(b.x - a.x, b.y - a.y);
+    return { value: px, valueMm: toMm(px, cal), unit: "px", text: formatLength(px, cal) };
+  }
+  if (m.kind === "angle") {
+    const deg = angleAt(m.points[0], m.points[1], m.points[2]);
+    return { value: deg, valueMm: null, unit: "deg", text: `${deg.toFixed(1)}°` };
+  }
+  const px2 = polygonArea(m.points);
+  return { value: px2, valueMm: cal.mmPerPx === null ? null : px2 * cal.mmPerPx * cal.mmPerPx, unit: "px2", text: formatArea(px2, cal) };
+}
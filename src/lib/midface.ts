@@ -0,0 +1,133 @@
+// src/lib/midface.ts
+// Tear trough and lid-cheek junction traced along the lower-lid mesh rings, with length and a groove depth from z,
+// plus the tear-trough injection preset (target points, recommended depth, cannula entry).
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine } from "./transform.ts";
+import { hasDepth as meshHasDepth } from "./depth.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+import { toMm, type Calibration } from "./calibration.ts";
+
+// lowest lower-lid ring (follows the orbital rim / lid-cheek junction) and the ring above it, medial -> lateral,
+// same columns in both rows. The rings are walked point by point and split at the mid-pupil line, so this is
+// mesh topology rather than named anatomy, and it lives here instead of the landmark registry (like MIRROR_PAIRS).
+const JUNCTION_RING = {
+  right: [245, 128, 121, 120, 119, 118, 117, 111, 143],
+  left: [465, 357, 350, 349, 348, 347, 346, 340, 372],
+};
+const LID_RING = {
+  right: [244, 233, 232, 231, 230, 229, 228, 31, 226],
+  left: [464, 453, 452, 451, 450, 449, 448, 261, 446],
+};
+
+const SIDE_LANDMARKS: Record<"right" | "left", { pupil: LandmarkName; exo: LandmarkName; endo: LandmarkName; cheek: LandmarkName }> = {
+  right: { pupil: "iris_center_right", exo: "exocanthion_right", endo: "endocanthion_right", cheek: "malar_right" },
+  left: { pupil: "iris_center_left", exo: "exocanthion_left", endo: "endocanthion_left", cheek: "malar_left" },
+};
+
+export type Groove = {
+  // image px, medial -> lateral
+  path: Vec2[];
+  lengthPx: number;
+  // how far the groove lies behind the lid-to-cheek slope (mesh z, roughly image px); null without depth
+  meanDepthPx: number | null;
+  maxDepthPx: number | null;
+};
+
+export type MidfaceSide = {
+  side: "right" | "left";
+  // medial to the mid-pupil line
+  tearTrough: Groove;
+  // lateral to the mid-pupil line
+  lidCheekJunction: Groove;
+};
+
+export type MidfaceAnalysis = { right: MidfaceSide; left: MidfaceSide; hasDepth: boolean };
+
+export type TearTroughPresetPoint = { point: Vec2; note: string };
+
+// recommended plane for tear-trough filler; shown on the preset's points
+export const TEAR_TROUGH_DEPTH = "deep, supraperiosteal";
+
+function groove(landmarks: Landmark[], junction: number[], lid: number[], cheek: Landmark, hasDepth: boolean, faceLevel: Affine): Groove {
+  const path = junction.map((i) => ({ x: landmarks[i][0], y: landmarks[i][1] }));
+  let lengthPx = 0;
+  for (let i = 1; i < path.length; i++) lengthPx += Math.hypot(path[i].x - path[i - 1].x, path[i].y - path[i - 1].y);
+  if (!hasDepth) return { path, lengthPx, meanDepthPx: null, maxDepthPx: null };
+  // expected z on the straight slope from the lid row above down to the cheek prominence; a hollow sits behind it
+  const fCheek = applyAffine(faceLevel, { x: cheek[0], y: cheek[1] });
+  const depths = junction.map((gi, k) => {
+    const lidLm = landmarks[lid[k]];
+    const yLid = applyAffine(faceLevel, { x: lidLm[0], y: lidLm[1] }).y;
+    const yG = applyAffine(faceLevel, path[k]).y;
+    const t = fCheek.y !== yLid ? Math.max(0, Math.min(1, (yG - yLid) / (fCheek.y - yLid))) : 0;
+    const expected = (lidLm[2] ?? 0) + t * ((cheek[2] ?? 0) - (lidLm[2] ?? 0));
+    return (landmarks[gi][2] ?? 0) - expected;
+  });
+  return {
+    path,
+    lengthPx,
+    meanDepthPx: depths.reduce((s, d) => s + d, 0) / depths.length,
+    maxDepthPx: Math.max(...depths),
+  };
+}
+
+function analyzeSide(landmarks: Landmark[], faceLevel: Affine, side: "right" | "left", hasDepth: boolean): MidfaceSide | null {
+  const names = SIDE_LANDMARKS[side];
+  const junction = JUNCTION_RING[side];
+  const lid = LID_RING[side];
+  const cheek = getLandmark(landmarks, names.cheek);
+  const exo = getLandmark(landmarks, names.exo);
+  const endo = getLandmark(landmarks, names.endo);
+  if (!cheek || !exo || !endo || [...junction, ...lid].some((i) => !landmarks[i])) return null;
+  // mid-pupil line; canthal midpoint when the iris wasn't refined
+  const pupilLm = getLandmark(landmarks, names.pupil);
+  const pupil = pupilLm ? { x: pupilLm[0], y: pupilLm[1] } : { x: (exo[0] + endo[0]) / 2, y: (exo[1] + endo[1]) / 2 };
+  const pupilX = applyAffine(faceLevel, pupil).x;
+  // +1 when lateral is +x in the face frame (patient's left lies on the image right)
+  const lateral = side === "left" ? 1 : -1;
+  const fx = junction.map((i) => applyAffine(faceLevel, { x: landmarks[i][0], y: landmarks[i][1] }).x);
+  let split = fx.findIndex((x) => (x - pupilX) * lateral >= 0);
+  if (split < 1) split = Math.floor(junction.length / 2);
+  // the split point belongs to both grooves so the traces meet
+  return {
+    side,
+    tearTrough: groove(landmarks, junction.slice(0, split + 1), lid.slice(0, split + 1), cheek, hasDepth, faceLevel),
+    lidCheekJunction: groove(landmarks, junction.slice(split), lid.slice(split), cheek, hasDepth, faceLevel),
+  };
+}
+
+// faceLevel: image px -> face frame (eye-line horizontal)
+export function analyzeMidface(landmarks: Landmark[], faceLevel: Affine): MidfaceAnalysis | null {
+  const hasDepth = meshHasDepth(landmarks);
+  const right = analyzeSide(landmarks, faceLevel, "right", hasDepth);
+  const left = analyzeSide(landmarks, faceLevel, "left", hasDepth);
+  return right && left ? { right, left, hasDepth } : null;
+}
+
+// per side: two deposits along the tear trough and one cannula entry on the lid-cheek junction, lateral to the trough
+export function tearTroughPreset(m: MidfaceAnalysis): TearTroughPresetPoint[] {
+  return [m.right, m.left].flatMap((s) => {
+    const path = s.tearTrough.path;
+    const at = (t: number) => path[Math.min(path.length - 1, Math.round(t * (path.length - 1)))];
+    const label = s.side === "right" ? "R" : "L";
+    const entry = s.lidCheekJunction.path[Math.floor((s.lidCheekJunction.path.length - 1) / 2)];
+    return [
+      { point: at(1 / 3), note: `${label} tear trough (medial): ${TEAR_TROUGH_DEPTH}` },
+      { point: at(2 / 3), note: `${label} tear trough (central): ${TEAR_TROUGH_DEPTH}` },
+      { point: entry, note: `${label} cannula entry (lid-cheek junction)` },
+    ];
+  });
+}
+
+// numbers only, for the session export
+export function midfaceSummary(m: MidfaceAnalysis, cal: Calibration) {
+  const g = (x: Groove) => ({
+    lengthPx: x.lengthPx,
+    lengthMm: toMm(x.lengthPx, cal),
+    meanDepthPx: x.meanDepthPx,
+    maxDepthPx: x.maxDepthPx,
+  });
+  const side = (s: MidfaceSide) => ({ tearTrough: g(s.tearTrough), lidCheekJunction: g(s.lidCheekJunction) });
+  return { right: side(m.right), left: side(m.left) };
+}
@@ -0,0 +1,120 @@
+// src/lib/midline.ts
+// Facial midline: two-point (forehead -> menton), robust fit through the midsagittal landmarks, or drawn by hand.
+import type { Landmark } from "./detector.ts";
+import type { Vec2 } from "./transform.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+
+export type MidlineMode = "two-point" | "fitted" | "manual";
+
+// a = top, b = bottom (image px)
+export type MidlineLine = { a: Vec2; b: Vec2 };
+
+// rigid midsagittal points, top to bottom; the inner lip points are left out since they move with the mouth
+export const MIDSAGITTAL: LandmarkName[] = [
+  "forehead_top",
+  "forehead_mid",
+  "glabella",
+  "glabella_lower",
+  "nasion",
+  "nasal_bridge",
+  "nasal_bridge_lower",
+  "nasal_dorsum_upper",
+  "nasal_dorsum",
+  "nasal_tip_upper",
+  "pronasale",
+  "infratip",
+  "columella",
+  "subnasale",
+  "philtrum_top",
+  "labrale_superius",
+  "labrale_inferius",
+  "mentolabial_sulcus",
+  "chin_upper",
+  "pogonion",
+  "gnathion",
+  "menton",
+];
+
+function midsagittalPoints(landmarks: Landmark[]): { name: LandmarkName; p: Vec2 }[] {
+  return MIDSAGITTAL.flatMap((name) => {
+    const lm = getLandmark(landmarks, name);
+    return lm ? [{ name, p: { x: lm[0], y: lm[1] } }] : [];
+  });
+}
+
+export function twoPointMidline(landmarks: Landmark[]): MidlineLine | null {
+  const top = getLandmark(landmarks, "forehead_top");
+  const bottom = getLandmark(landmarks, "menton");
+  return top && bottom ? { a: { x: top[0], y: top[1] }, b: { x: bottom[0], y: bottom[1] } } : null;
+}
+
+// weighted total-least-squares line: centroid plus principal direction
+function tlsLine(pts: Vec2[], w: number[]) {
+  const sw = w.reduce((s, x) => s + x, 0) || 1;
+  const cx = pts.reduce((s, p, i) => s + w[i] * p.x, 0) / sw;
+  const cy = pts.reduce((s, p, i) => s + w[i] * p.y, 0) / sw;
+  let sxx = 0,
+    syy = 0,
+    sxy = 0;
+  pts.forEach((p, i) => {
+    sxx += w[i] * (p.x - cx) ** 2;
+    syy += w[i] * (p.y - cy) ** 2;
+    sxy += w[i] * (p.x - cx) * (p.y - cy);
+  });
+  const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  let dir = { x: Math.cos(theta), y: Math.sin(theta) };
+  // point down the face
+  if (dir.y < 0) dir = { x: -dir.x, y: -dir.y };
+  return { c: { x: cx, y: cy }, dir };
+}
+
+// robust fit: iteratively reweighted TLS with Huber weights, so one misdetected point can't tilt the line
+export function fitMidline(landmarks: Landmark[]): MidlineLine | null {
+  const named = midsagittalPoints(landmarks);
+  if (named.length < 3) return null;
+  const pts = named.map((n) => n.p);
+  let w = pts.map(() => 1);
+  let line = tlsLine(pts, w);
+  for (let iter = 0; iter < 10; iter++) {
+    const r = pts.map((p) => Math.abs((p.x - line.c.x) * line.dir.y - (p.y - line.c.y) * line.dir.x));
+    const sorted = [...r].sort((a, b) => a - b);
+    const mad = sorted[Math.floor(sorted.length / 2)] / 0.6745 || 1e-6;
+    const k = 1.345 * mad;
+    w = r.map((ri) => (ri <= k ? 1 : k / ri));
+    line = tlsLine(pts, w);
+  }
+  // endpoints: the extreme midsagittal points projected onto the line
+  const ts = pts.map((p) => (p.x - line.c.x) * line.dir.x + (p.y - line.c.y) * line.dir.y);
+  const t0 = Math.min(...ts);
+  const t1 = Math.max(...ts);
+  return {
+    a: { x: line.c.x + t0 * line.dir.x, y: line.c.y + t0 * line.dir.y },
+    b: { x: line.c.x + t1 * line.dir.x, y: line.c.y + t1 * line.dir.y },
+  };
+}
+
+export type MidlineResidual = {
+  // perpendicular distances of the midsagittal landmarks from the line (image px)
+  rmsPx: number;
+  maxPx: number;
+  worst: LandmarkName | null;
+  count: number;
+};
+
+export function midlineResidual(landmarks: Landmark[], line: MidlineLine): MidlineResidual | null {
+  const named = midsagittalPoints(landmarks);
+  const len = Math.hypot(line.b.x - line.a.x, line.b.y - line.a.y);
+  if (named.length === 0 || len === 0) return null;
+  let sq = 0;
+  let maxPx = 0;
+  let worst: LandmarkName | null = null;
+  for (const { name, p } of named) {
+    const d = Math.abs((line.b.x - line.a.x) * (line.a.y - p.y) - (line.a.x - p.x) * (line.b.y - line.a.y)) / len;
+    sq += d * d;
+    if (d > maxPx) {
+      maxPx = d;
+      worst = name;
+    }
+  }
+  return { rmsPx: Math.sqrt(sq / named.length), maxPx, worst, count: named.length };
+}
@@ -0,0 +1,98 @@
+// src/lib/mockDetector.test.ts
+import { describe, expect, it, vi } from "vitest";
+import type { Landmark } from "./detector.ts";
+import { createMockDetector, createMockDetectorFromRaw } from "./mockDetector.ts";
+import { fitAnchorMesh } from "./anchorFit.ts";
+import { getLandmark } from "./landmarkRegistry.ts";
+import { eyeLineAngle, levelAffine } from "./level.ts";
+import { fitMidline } from "./midline.ts";
+import { facialThirds } from "./thirds.ts";
+import { measurementValue } from "./measurements.ts";
+import type { Calibration } from "./calibration.ts";
+
+// the TF package touches browser globals on import; the mock never calls it
+vi.mock("@tensorflow-models/face-landmarks-detection", () => ({}));
+
+// upright, symmetric face about x = 200, outer canthi 100 px apart
+const FRONTAL = fitAnchorMesh({
+  eye_outer_r: { x: 150, y: 200 },
+  eye_outer_l: { x: 250, y: 200 },
+  nose_tip: { x: 200, y: 247.5 },
+  mouth_r: { x: 175, y: 274 },
+  mouth_l: { x: 225, y: 274 },
+  chin: { x: 200, y: 317.5 },
+})!;
+
+// the same face rolled 10° about the eye-line centre
+const ROLL = (10 * Math.PI) / 180;
+const ROLLED: Landmark[] = FRONTAL.map((lm) => {
+  const dx = lm[0] - 200;
+  const dy = lm[1] - 200;
+  return [200 + dx * Math.cos(ROLL) - dy * Math.sin(ROLL), 200 + dx * Math.sin(ROLL) + dy * Math.cos(ROLL), 0];
+});
+
+const CAL: Calibration = { source: "ipd", mmPerPx: 0.5, detail: "test" };
+
+describe("createMockDetector", () => {
+  it("returns the fixed mesh with bounds and mesh version", async () => {
+    const detector = createMockDetector([FRONTAL]);
+    const [face] = await detector.estimate(null as never);
+    expect(detector.kind).toBe("mock");
+    expect(face.meshVersion).toBe("facemesh-478");
+    expect(face.box).toEqual({ xMin: 150, yMin: expect.any(Number), width: 100, height: expect.any(Number) });
+    expect(getLandmark(face.landmarks, "menton")).toEqual([200, 317.5, 0]);
+  });
+
+  it("hands out copies so callers can't change the fixture", async () => {
+    const detector = createMockDetector([FRONTAL]);
+    const [first] = await detector.estimate(null as never);
+    getLandmark(first.landmarks, "menton")![0] = 0;
+    const [second] = await detector.estimate(null as never);
+    expect(getLandmark(second.landmarks, "menton")![0]).toBe(200);
+  });
+
+  it("rejects after dispose", async () => {
+    const detector = createMockDetector([FRONTAL]);
+    detector.dispose();
+    await expect(detector.estimate(null as never)).rejects.toThrow("disposed");
+  });
+
+  it("normalises raw estimateFaces output", async () => {
+    const raw = [{ keypoints: FRONTAL.map((lm) => lm && { x: lm[0], y: lm[1], z: lm[2] }), score: 0.9 }, { nothing: true }];
+    const [face, ...rest] = await createMockDetectorFromRaw(raw).estimate(null as never);
+    expect(rest).toHaveLength(0);
+    expect(face.score).toBe(0.9);
+    expect(getLandmark(face.landmarks, "pronasale")).toEqual([200, 247.5, 0]);
+  });
+});
+
+describe("analysis on mock output", () => {
+  it("fits a vertical midline through the symmetric face", async () => {
+    const [face] = await createMockDetector([FRONTAL]).estimate(null as never);
+    const line = fitMidline(face.landmarks)!;
+    expect(line.a.x).toBeCloseTo(200, 6);
+    expect(line.b.x).toBeCloseTo(200, 6);
+    expect(eyeLineAngle(face.landmarks)).toBeCloseTo(0, 9);
+  });
+
+  it("measures thirds in the face frame, independent of head roll", async () => {
+    const [upright, rolled] = await createMockDetector([FRONTAL, ROLLED]).estimate(null as never);
+    expect(eyeLineAngle(rolled.landmarks)).toBeCloseTo(ROLL, 9);
+    const a = facialThirds(upright.landmarks, levelAffine(upright.landmarks)!)!;
+    const b = facialThirds(rolled.landmarks, levelAffine(rolled.landmarks)!)!;
+    expect(a.proportions.reduce((s, p) => s + p, 0)).toBeCloseTo(1, 9);
+    a.heights.forEach((h, i) => expect(b.heights[i]).toBeCloseTo(h, 6));
+  });
+
+  it("reports calibrated distances between detected landmarks", async () => {
+    const [face] = await createMockDetector([FRONTAL]).estimate(null as never);
+    const [r, l] = (["exocanthion_right", "exocanthion_left"] as const).map((n) => {
+      const lm = getLandmark(face.landmarks, n)!;
+      return { x: lm[0], y: lm[1] };
+    });
+    const v = measurementValue({ id: "m", kind: "distance", points: [r, l] }, CAL)!;
+    expect(v.value).toBeCloseTo(100, 9);
+    expect(v.valueMm).toBeCloseTo(50, 9);
+    expect(v.text).toBe("50.0 mm");
+  });
+});
@@ -0,0 +1,36 @@
+// src/lib/mockDetector.ts
+import {
+  landmarkBounds,
+  meshVersionFor,
+  normalizePrediction,
+  type FacePrediction,
+  type Landmark,
+  type LandmarkDetector,
+} from "./detector.ts";
+
+// deterministic stand-in for the TF detectors: always returns the meshes it was built with,
+// so overlays and measurements can be exercised without TensorFlow or model weights
+export function createMockDetector(faces: Array<Landmark[] | FacePrediction>, opts: { delayMs?: number } = {}): LandmarkDetector {
+  const predictions: FacePrediction[] = faces.map((f) =>
+    Array.isArray(f) ? { landmarks: f, box: landmarkBounds(f), score: 1, meshVersion: meshVersionFor(f.length) } : f
+  );
+  let disposed = false;
+
+  return {
+    kind: "mock",
+    async estimate() {
+      if (disposed) throw new Error("mock detector disposed");
+      if (opts.delayMs) await new Promise((r) => setTimeout(r, opts.delayMs));
+      // hand out copies so callers can't mutate the fixture
+      return predictions.map((p) => ({ ...p, landmarks: p.landmarks.map((lm) => [...lm] as Landmark) }));
+    },
+    dispose() {
+      disposed = true;
+    },
+  };
+}
+
+// build a mock from raw estimateFaces() output captured from a real run (e.g. JSON.stringify'd predictions)
+export function createMockDetectorFromRaw(rawPredictions: unknown[]): LandmarkDetector {
+  return createMockDetector(rawPredictions.map(normalizePrediction).filter(Boolean) as FacePrediction[]);
+}
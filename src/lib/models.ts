@@ -0,0 +1,48 @@
+// src/lib/models.ts
+// Model locations and status; the loader itself lives in src/workers/modelLoader.ts
+export type ModelSource = "cache" | "local";
+
+export type ModelStatus = {
+  state: "idle" | "loading" | "ready" | "missing" | "failed";
+  // where each model's weights came from, keyed by model id
+  sources: Partial<Record<ModelId, ModelSource>>;
+  error?: string;
+};
+
+export type ModelId = "detector" | "landmarks";
+
+export const INITIAL_MODEL_STATUS: ModelStatus = { state: "idle", sources: {} };
+
+// bump when the bundled weights change so stale IndexedDB copies are ignored
+const MODEL_CACHE_VERSION = 1;
+
+// weights are served from public/models (see public/models/README.md);
+// VITE_MODEL_BASE_URL can point somewhere else on the same network
+export const MODEL_BASE_URL: string =
+  (import.meta.env.VITE_MODEL_BASE_URL as string | undefined) ?? `${import.meta.env.BASE_URL}models/`;
+
+export const MODEL_PATHS: Record<ModelId, string> = {
+  detector: "face_detection/short/model.json",
+  // refineLandmarks: true needs the attention mesh (adds the iris points)
+  landmarks: "face_landmarks_detection/attention_mesh/model.json",
+};
+
+export class ModelMissingError extends Error {
+  modelId: ModelId;
+  url: string;
+
+  constructor(modelId: ModelId, url: string, cause?: unknown) {
+    super(`FaceMesh weights for "${modelId}" not found at ${url}`, { cause });
+    this.name = "ModelMissingError";
+    this.modelId = modelId;
+    this.url = url;
+  }
+}
+
+export function modelUrl(id: ModelId) {
+  return new URL(MODEL_PATHS[id], new URL(MODEL_BASE_URL, location.href)).toString();
+}
+
+export function cacheKey(id: ModelId) {
+  return `indexeddb://facebalance-${id}-v${MODEL_CACHE_VERSION}`;
+}
@@ -0,0 +1,150 @@
+// src/lib/nose.ts
+// Nasal analysis for non-surgical rhinoplasty: alar width vs intercanthal width, tip and dorsum deviation
+// from the facial midline, and alar base symmetry. Measured in the face frame (eye-line horizontal).
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine, invertAffine } from "./transform.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+import type { MidlineLine } from "./midline.ts";
+
+// commonly quoted targets; deviations are % of intercanthal width so they don't depend on calibration
+export const NOSE_IDEALS = {
+  widthToIntercanthal: { min: 0.9, max: 1.1 },
+  tipDeviationPct: 5,
+  dorsumDeviationDeg: 3,
+  alarSpacingSymmetryPct: 90,
+  alarHeightDiffPct: 5,
+};
+
+export type NoseMetric = { id: string; label: string; value: number; text: string; ideal: string; ok: boolean };
+
+export type NoseAnalysis = {
+  alarWidthPx: number;
+  intercanthalPx: number;
+  // > 0 = towards the patient's left
+  tipDeviationPx: number;
+  metrics: NoseMetric[];
+  // overlay geometry, image px
+  alarWidthLine: [Vec2, Vec2];
+  // straight down from each medial canthus to alar level
+  canthalGuides: [Vec2, Vec2][];
+  dorsumLine: [Vec2, Vec2];
+  // from the midline to the tip, horizontal in the face frame
+  tipDeviationLine: [Vec2, Vec2];
+  alarBases: [Vec2, Vec2];
+  // from the midline to each alar base
+  alarBaseLines: [Vec2, Vec2][];
+};
+
+function xy(landmarks: Landmark[], name: LandmarkName): Vec2 | null {
+  const lm = getLandmark(landmarks, name);
+  return lm ? { x: lm[0], y: lm[1] } : null;
+}
+
+const side = (v: number) => (v > 0 ? "L" : "R");
+
+// faceLevel: image px -> face frame (eye-line horizontal)
+export function analyzeNose(landmarks: Landmark[], faceLevel: Affine, midline: MidlineLine | null): NoseAnalysis | null {
+  const alR = xy(landmarks, "alare_right");
+  const alL = xy(landmarks, "alare_left");
+  const baseR = xy(landmarks, "alar_right");
+  const baseL = xy(landmarks, "alar_left");
+  const enR = xy(landmarks, "endocanthion_right");
+  const enL = xy(landmarks, "endocanthion_left");
+  const nasion = xy(landmarks, "nasion");
+  const tip = xy(landmarks, "pronasale");
+  if (!alR || !alL || !baseR || !baseL || !enR || !enL || !nasion || !tip || !midline) return null;
+
+  const f = (p: Vec2) => applyAffine(faceLevel, p);
+  const fromFace = invertAffine(faceLevel);
+  const fa = f(midline.a);
+  const fb = f(midline.b);
+  if (fa.y === fb.y) return null;
+  // face-frame x of the midline at height y
+  const midX = (y: number) => fa.x + ((y - fa.y) / (fb.y - fa.y)) * (fb.x - fa.x);
+
+  const alarWidthPx = Math.abs(f(alL).x - f(alR).x);
+  const intercanthalPx = Math.abs(f(enL).x - f(enR).x);
+  if (!(intercanthalPx > 0)) return null;
+  const pct = (px: number) => (Math.abs(px) / intercanthalPx) * 100;
+  const metrics: NoseMetric[] = [];
+
+  const widthRatio = alarWidthPx / intercanthalPx;
+  const { widthToIntercanthal } = NOSE_IDEALS;
+  metrics.push({
+    id: "width_intercanthal",
+    label: "Alar width : intercanthal",
+    value: widthRatio,
+    text: widthRatio.toFixed(2),
+    ideal: `${widthToIntercanthal.min}–${widthToIntercanthal.max}`,
+    ok: widthRatio >= widthToIntercanthal.min && widthRatio <= widthToIntercanthal.max,
+  });
+
+  const fTip = f(tip);
+  const tipDeviationPx = fTip.x - midX(fTip.y);
+  metrics.push({
+    id: "tip_deviation",
+    label: "Tip deviation from midline",
+    value: pct(tipDeviationPx),
+    text: `${pct(tipDeviationPx).toFixed(1)}% of IC${Math.abs(tipDeviationPx) >= 0.5 ? ` (${side(tipDeviationPx)})` : ""}`,
+    ideal: `≤ ${NOSE_IDEALS.tipDeviationPct}%`,
+    ok: pct(tipDeviationPx) <= NOSE_IDEALS.tipDeviationPct,
+  });
+
+  // dorsum (nasion -> tip) against the midline direction
+  const fNasion = f(nasion);
+  const dorsumAngle = Math.atan2(fTip.x - fNasion.x, fTip.y - fNasion.y);
+  const midAngle = Math.atan2(fb.x - fa.x, fb.y - fa.y);
+  const dorsumDeg = ((dorsumAngle - midAngle) * 180) / Math.PI;
+  metrics.push({
+    id: "dorsum_deviation",
+    label: "Dorsum angle to midline",
+    value: dorsumDeg,
+    text: `${Math.abs(dorsumDeg).toFixed(1)}°${Math.abs(dorsumDeg) >= 0.05 ? ` (towards ${side(dorsumDeg)})` : ""}`,
+    ideal: `≤ ${NOSE_IDEALS.dorsumDeviationDeg}°`,
+    ok: Math.abs(dorsumDeg) <= NOSE_IDEALS.dorsumDeviationDeg,
+  });
+
+  // alar bases: distance from the midline and height, left against right
+  const fBaseR = f(baseR);
+  const fBaseL = f(baseL);
+  const dR = Math.abs(fBaseR.x - midX(fBaseR.y));
+  const dL = Math.abs(fBaseL.x - midX(fBaseL.y));
+  const spacing = Math.max(dR, dL) > 0 ? (Math.min(dR, dL) / Math.max(dR, dL)) * 100 : 100;
+  metrics.push({
+    id: "alar_spacing",
+    label: "Alar base spacing symmetry",
+    value: spacing,
+    text: `${spacing.toFixed(0)}%${spacing < 99.5 ? ` (${dL > dR ? "L" : "R"} wider)` : ""}`,
+    ideal: `≥ ${NOSE_IDEALS.alarSpacingSymmetryPct}%`,
+    ok: spacing >= NOSE_IDEALS.alarSpacingSymmetryPct,
+  });
+  // > 0 when the left base sits higher
+  const heightDiff = fBaseR.y - fBaseL.y;
+  metrics.push({
+    id: "alar_height",
+    label: "Alar base height difference",
+    value: pct(heightDiff),
+    text: `${pct(heightDiff).toFixed(1)}% of IC${Math.abs(heightDiff) >= 0.5 ? ` (${side(heightDiff)} higher)` : ""}`,
+    ideal: `≤ ${NOSE_IDEALS.alarHeightDiffPct}%`,
+    ok: pct(heightDiff) <= NOSE_IDEALS.alarHeightDiffPct,
+  });
+
+  const alarY = (f(alR).y + f(alL).y) / 2;
+  const back = (p: Vec2) => applyAffine(fromFace, p);
+  return {
+    alarWidthPx,
+    intercanthalPx,
+    tipDeviationPx,
+    metrics,
+    alarWidthLine: [alR, alL],
+    canthalGuides: [enR, enL].map((en) => {
+      const fe = f(en);
+      return [en, back({ x: fe.x, y: alarY })] as [Vec2, Vec2];
+    }),
+    dorsumLine: [nasion, tip],
+    tipDeviationLine: [back({ x: midX(fTip.y), y: fTip.y }), tip],
+    alarBases: [baseR, baseL],
+    alarBaseLines: [fBaseR, fBaseL].map((fp, i) => [back({ x: midX(fp.y), y: fp.y }), i === 0 ? baseR : baseL] as [Vec2, Vec2]),
+  };
+}
@@ -0,0 +1,177 @@
+// src/lib/periorbital.ts
+// Eye-region measurements for brow-lift planning: canthal tilt, brow-to-pupil height, brow apex vs lateral limbus.
+// Everything is measured in the face frame (eye-line horizontal), so head roll doesn't leak into the numbers.
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine, invertAffine } from "./transform.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+import { toMm, type Calibration } from "./calibration.ts";
+
+// upper brow contours, lateral -> medial
+const BROW_UPPER: Record<"right" | "left", LandmarkName[]> = {
+  right: [
+    "brow_upper_right_0",
+    "brow_upper_right_1",
+    "brow_upper_right_2",
+    "brow_upper_right_3",
+    "brow_upper_right_4",
+    "brow_upper_right_5",
+    "brow_upper_right_6",
+    "brow_upper_right_7",
+  ],
+  left: [
+    "brow_upper_left_0",
+    "brow_upper_left_1",
+    "brow_upper_left_2",
+    "brow_upper_left_3",
+    "brow_upper_left_4",
+    "brow_upper_left_5",
+    "brow_upper_left_6",
+    "brow_upper_left_7",
+  ],
+};
+
+type SideLandmarks = { exo: LandmarkName; endo: LandmarkName; iris: LandmarkName; edges: [LandmarkName, LandmarkName] };
+
+const SIDE_LANDMARKS: Record<"right" | "left", SideLandmarks> = {
+  right: {
+    exo: "exocanthion_right",
+    endo: "endocanthion_right",
+    iris: "iris_center_right",
+    edges: ["iris_right_edge_a", "iris_right_edge_b"],
+  },
+  left: {
+    exo: "exocanthion_left",
+    endo: "endocanthion_left",
+    iris: "iris_center_left",
+    edges: ["iris_left_edge_a", "iris_left_edge_b"],
+  },
+};
+
+export type EyeSide = {
+  side: "right" | "left";
+  // degrees; > 0 when the lateral canthus sits higher than the medial one
+  canthalTiltDeg: number;
+  // pupil -> upper brow edge straight above it (px)
+  browPupilPx: number | null;
+  // brow apex horizontal offset from the lateral limbus (px); > 0 = apex lies lateral to the limbus
+  apexToLimbusPx: number | null;
+  // true when the iris landmarks were missing and the pupil was taken as the canthal midpoint
+  pupilEstimated: boolean;
+  // overlay geometry, image px
+  canthi: [Vec2, Vec2];
+  pupil: Vec2;
+  browAbovePupil: Vec2 | null;
+  apex: Vec2 | null;
+  limbus: Vec2 | null;
+};
+
+export type PeriorbitalAnalysis = {
+  right: EyeSide;
+  left: EyeSide;
+  // left minus right
+  diff: { canthalTiltDeg: number; browPupilPx: number | null; apexToLimbusPx: number | null };
+};
+
+function xy(lm: Landmark | undefined): Vec2 | null {
+  return lm ? { x: lm[0], y: lm[1] } : null;
+}
+
+function analyzeSide(landmarks: Landmark[], faceLevel: Affine, side: "right" | "left"): EyeSide | null {
+  const names = SIDE_LANDMARKS[side];
+  const exo = xy(getLandmark(landmarks, names.exo));
+  const endo = xy(getLandmark(landmarks, names.endo));
+  if (!exo || !endo) return null;
+  const toFace = (p: Vec2) => applyAffine(faceLevel, p);
+  const fromFace = invertAffine(faceLevel);
+  // +1 when "lateral" is +x in the face frame (patient's left lies on the image right)
+  const lateral = side === "left" ? 1 : -1;
+
+  const fExo = toFace(exo);
+  const fEndo = toFace(endo);
+  const canthalTiltDeg = (Math.atan2(fEndo.y - fExo.y, Math.abs(fExo.x - fEndo.x)) * 180) / Math.PI;
+
+  const iris = xy(getLandmark(landmarks, names.iris));
+  const pupil = iris ?? { x: (exo.x + endo.x) / 2, y: (exo.y + endo.y) / 2 };
+  const fPupil = toFace(pupil);
+
+  const brow = BROW_UPPER[side].map((name) => xy(getLandmark(landmarks, name)));
+  const fBrow = brow.every(Boolean) ? brow.map((p) => toFace(p!)) : null;
+
+  // upper brow edge directly above the pupil: interpolate along the contour
+  let browAbovePupil: Vec2 | null = null;
+  let browPupilPx: number | null = null;
+  if (fBrow) {
+    for (let i = 0; i < fBrow.length - 1; i++) {
+      const a = fBrow[i];
+      const b = fBrow[i + 1];
+      if ((a.x - fPupil.x) * (b.x - fPupil.x) <= 0 && a.x !== b.x) {
+        const t = (fPupil.x - a.x) / (b.x - a.x);
+        const y = a.y + t * (b.y - a.y);
+        browAbovePupil = applyAffine(fromFace, { x: fPupil.x, y });
+        browPupilPx = fPupil.y - y;
+        break;
+      }
+    }
+  }
+
+  // apex = highest point of the upper brow edge
+  const fApex = fBrow ? fBrow.reduce((best, p) => (p.y < best.y ? p : best)) : null;
+
+  // lateral limbus: lateral edge of the iris (refined mesh only)
+  let fLimbus: Vec2 | null = null;
+  const e0 = xy(getLandmark(landmarks, names.edges[0]));
+  const e1 = xy(getLandmark(landmarks, names.edges[1]));
+  if (iris && e0 && e1) {
+    const radius = Math.hypot(e1.x - e0.x, e1.y - e0.y) / 2;
+    fLimbus = { x: fPupil.x + lateral * radius, y: fPupil.y };
+  }
+
+  return {
+    side,
+    canthalTiltDeg,
+    browPupilPx,
+    apexToLimbusPx: fApex && fLimbus ? (fApex.x - fLimbus.x) * lateral : null,
+    pupilEstimated: !iris,
+    canthi: [endo, exo],
+    pupil,
+    browAbovePupil,
+    apex: fApex ? applyAffine(fromFace, fApex) : null,
+    limbus: fLimbus ? applyAffine(fromFace, fLimbus) : null,
+  };
+}
+
+// faceLevel: image px -> face frame (eye-line horizontal)
+export function analyzePeriorbital(landmarks: Landmark[], faceLevel: Affine): PeriorbitalAnalysis | null {
+  const right = analyzeSide(landmarks, faceLevel, "right");
+  const left = analyzeSide(landmarks, faceLevel, "left");
+  if (!right || !left) return null;
+  const sub = (l: number | null, r: number | null) => (l === null || r === null ? null : l - r);
+  return {
+    right,
+    left,
+    diff: {
+      canthalTiltDeg: left.canthalTiltDeg - right.canthalTiltDeg,
+      browPupilPx: sub(left.browPupilPx, right.browPupilPx),
+      apexToLimbusPx: sub(left.apexToLimbusPx, right.apexToLimbusPx),
+    },
+  };
+}
+
+// numbers only, for the session export
+export function periorbitalSummary(a: PeriorbitalAnalysis, cal: Calibration) {
+  const mm = (px: number | null) => (px === null ? null : toMm(px, cal));
+  const side = (e: EyeSide) => ({
+    canthalTiltDeg: e.canthalTiltDeg,
+    browPupilPx: e.browPupilPx,
+    browPupilMm: mm(e.browPupilPx),
+    apexToLimbusPx: e.apexToLimbusPx,
+    apexToLimbusMm: mm(e.apexToLimbusPx),
+    pupilEstimated: e.pupilEstimated,
+  });
+  return {
+    right: side(a.right),
+    left: side(a.left),
+    diff: { ...a.diff, browPupilMm: mm(a.diff.browPupilPx), apexToLimbusMm: mm(a.diff.apexToLimbusPx) },
+  };
+}
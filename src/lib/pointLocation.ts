@@ -0,0 +1,87 @@
+// src/lib/pointLocation.ts
+// Describe an annotation point relative to nearby named landmarks ("4 mm lateral, 2 mm inferior to left oral commissure"),
+// so the same spot can be found again on the next visit. Directions are anatomical, taken in the face frame.
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine } from "./transform.ts";
+import { formatLength, toMm, type Calibration } from "./calibration.ts";
+import { getLandmark, LANDMARK_REGISTRY, type LandmarkDef, type LandmarkName } from "./landmarkRegistry.ts";
+import { MIDSAGITTAL, type MidlineLine } from "./midline.ts";
+
+export type RelativeLocation = {
+  landmark: LandmarkName;
+  index: number;
+  // > 0 lateral (away from the midline), < 0 medial; for midline landmarks > 0 = towards the patient's left
+  lateralPx: number;
+  // > 0 inferior, < 0 superior
+  inferiorPx: number;
+  distancePx: number;
+  lateralMm: number | null;
+  inferiorMm: number | null;
+  text: string;
+};
+
+// midsagittal landmarks are described left/right instead of medial/lateral; so is any other landmark within
+// this fraction of the outer-canthal width of the midline (the inner lip points, for instance)
+const MIDLINE_BAND = 0.03;
+const isMidsagittal = (name: LandmarkName, def: LandmarkDef) => def.region === "midline" || MIDSAGITTAL.includes(name);
+
+// landmarks whose position is verified; "approx" entries would make the description misleading
+const REFERENCE_LANDMARKS = (Object.entries(LANDMARK_REGISTRY) as [LandmarkName, LandmarkDef][]).filter(
+  ([, def]) => !def.approx && def.region !== "iris"
+);
+
+function component(px: number, cal: Calibration, positive: string, negative: string) {
+  // below half a millimetre (or a pixel, uncalibrated) the offset isn't worth stating
+  const negligible = cal.mmPerPx === null ? Math.abs(px) < 1 : Math.abs(px * cal.mmPerPx) < 0.5;
+  return negligible ? null : `${formatLength(Math.abs(px), cal)} ${px > 0 ? positive : negative}`;
+}
+
+// faceLevel: image px -> face frame (eye-line horizontal)
+export function describePoint(
+  p: Vec2,
+  landmarks: Landmark[],
+  faceLevel: Affine,
+  midline: MidlineLine | null,
+  cal: Calibration,
+  count = 2
+): RelativeLocation[] {
+  const fp = applyAffine(faceLevel, p);
+  const fa = midline ? applyAffine(faceLevel, midline.a) : null;
+  const fb = midline ? applyAffine(faceLevel, midline.b) : null;
+  // face-frame x of the midline at height y
+  const midX = (y: number) => (fa && fb && fb.y !== fa.y ? fa.x + ((y - fa.y) / (fb.y - fa.y)) * (fb.x - fa.x) : null);
+  const exR = getLandmark(landmarks, "exocanthion_right");
+  const exL = getLandmark(landmarks, "exocanthion_left");
+  const bandPx = exR && exL ? Math.hypot(exL[0] - exR[0], exL[1] - exR[1]) * MIDLINE_BAND : 0;
+
+  const candidates = REFERENCE_LANDMARKS.flatMap(([name, def]) => {
+    const lm = landmarks[def.index];
+    if (!lm) return [];
+    return [{ name, def, fr: applyAffine(faceLevel, { x: lm[0], y: lm[1] }), dist: Math.hypot(lm[0] - p.x, lm[1] - p.y) }];
+  }).sort((a, b) => a.dist - b.dist);
+
+  return candidates.slice(0, count).map(({ name, def, fr, dist }) => {
+    const mx = midX(fr.y);
+    const onMidline = mx === null || isMidsagittal(name, def) || Math.abs(fr.x - mx) < bandPx;
+    // lateral = away from the midline; +x in the face frame is the patient's left
+    const outward = onMidline ? 1 : Math.sign(fr.x - mx!);
+    const lateralPx = (fp.x - fr.x) * outward;
+    const inferiorPx = fp.y - fr.y;
+    const parts = [
+      onMidline ? component(lateralPx, cal, "to the left", "to the right") : component(lateralPx, cal, "lateral", "medial"),
+      component(inferiorPx, cal, "inferior", "superior"),
+    ].filter(Boolean);
+    const ref = def.description.charAt(0).toLowerCase() + def.description.slice(1);
+    return {
+      landmark: name,
+      index: def.index,
+      lateralPx,
+      inferiorPx,
+      distancePx: dist,
+      lateralMm: toMm(lateralPx, cal),
+      inferiorMm: toMm(inferiorPx, cal),
+      text: parts.length === 0 ? `at ${ref}` : `${parts.join(", ")} to ${ref}`,
+    };
+  });
+}
@@ -0,0 +1,200 @@
+// src/lib/proportions.ts
+// Horizontal fifths and golden-ratio (phi) proportions for aesthetic consultations.
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine, fitSimilarity } from "./transform.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+
+export const PHI = (1 + Math.sqrt(5)) / 2;
+
+// ---------- fifths ----------
+
+// ideal: five equal widths across the face at eye level, each one eye wide
+export const IDEAL_FIFTH = 1 / 5;
+export const FIFTHS_TOLERANCE = 0.03;
+
+const FIFTHS_BOUNDARIES: LandmarkName[] = [
+  "zygion_right",
+  "exocanthion_right",
+  "endocanthion_right",
+  "endocanthion_left",
+  "exocanthion_left",
+  "zygion_left",
+];
+
+export const FIFTH_LABELS = ["Right lateral", "Right eye", "Intercanthal", "Left eye", "Left lateral"] as const;
+
+export type FacialFifths = {
+  // face-frame x of each boundary (patient's right to left) and the vertical extent of the guides
+  xs: number[];
+  yTop: number;
+  yBottom: number;
+  widths: number[];
+  proportions: number[];
+  // each width relative to the mean eye width (ideal 1)
+  eyeRatios: number[];
+};
+
+// faceLevel: image px -> face frame (eye-line horizontal)
+export function facialFifths(landmarks: Landmark[], faceLevel: Affine): FacialFifths | null {
+  const pts = FIFTHS_BOUNDARIES.map((n) => getLandmark(landmarks, n));
+  const top = getLandmark(landmarks, "forehead_top");
+  const chin = getLandmark(landmarks, "menton");
+  if (pts.some((p) => !p) || !top || !chin) return null;
+  const xs = pts.map((p) => applyAffine(faceLevel, { x: p![0], y: p![1] }).x);
+  const widths = xs.slice(1).map((x, i) => x - xs[i]);
+  const total = xs[xs.length - 1] - xs[0];
+  const eye = (widths[1] + widths[3]) / 2;
+  if (!(total > 0) || !(eye > 0)) return null;
+  return {
+    xs,
+    yTop: applyAffine(faceLevel, { x: top[0], y: top[1] }).y,
+    yBottom: applyAffine(faceLevel, { x: chin[0], y: chin[1] }).y,
+    widths,
+    proportions: widths.map((w) => w / total),
+    eyeRatios: widths.map((w) => w / eye),
+  };
+}
+
+// ---------- phi mask ----------
+
+// relative deviation from phi above which a ratio is flagged
+export const PHI_TOLERANCE = 0.08;
+
+// frontal template built from ideal proportions, in intercanthal-width units (eye-line at y = 0, y down):
+// equal fifths, face length : width = phi, equal thirds, mouth : nose width = phi,
+// (subnasale–menton) : (stomion–menton) = phi
+const FACE_W = 5;
+const FACE_H = FACE_W * PHI;
+const THIRD = FACE_H / 3;
+const TRICHION_Y = -0.35 - THIRD;
+const SUBNASALE_Y = -0.35 + THIRD;
+const MENTON_Y = SUBNASALE_Y + THIRD;
+const STOMION_Y = MENTON_Y - THIRD / PHI;
+
+// only the landmarks the mask is fitted to
+const MASK_TEMPLATE: Partial<Record<LandmarkName, Vec2>> = {
+  zygion_right: { x: -2.5, y: 0 },
+  zygion_left: { x: 2.5, y: 0 },
+  exocanthion_right: { x: -1.5, y: 0 },
+  exocanthion_left: { x: 1.5, y: 0 },
+  endocanthion_right: { x: -0.5, y: 0 },
+  endocanthion_left: { x: 0.5, y: 0 },
+  glabella: { x: 0, y: -0.35 },
+  alar_right: { x: -0.5, y: SUBNASALE_Y - 0.1 },
+  alar_left: { x: 0.5, y: SUBNASALE_Y - 0.1 },
+  subnasale: { x: 0, y: SUBNASALE_Y },
+  cheilion_right: { x: -PHI / 2, y: STOMION_Y },
+  cheilion_left: { x: PHI / 2, y: STOMION_Y },
+  stomion_superius: { x: 0, y: STOMION_Y },
+  menton: { x: 0, y: MENTON_Y },
+};
+
+// polylines drawn for the mask (template units)
+const MASK_LINES: Vec2[][] = [
+  // outline: trichion, temples, zygia, jaw angles, menton
+  [
+    { x: 0, y: TRICHION_Y },
+    { x: 1.9, y: TRICHION_Y + 0.9 },
+    { x: 2.5, y: 0 },
+    { x: 2.1, y: STOMION_Y },
+    { x: 0, y: MENTON_Y },
+    { x: -2.1, y: STOMION_Y },
+    { x: -2.5, y: 0 },
+    { x: -1.9, y: TRICHION_Y + 0.9 },
+    { x: 0, y: TRICHION_Y },
+  ],
+  // eye-line fifths
+  [
+    { x: -2.5, y: 0 },
+    { x: 2.5, y: 0 },
+  ],
+  // brow line at glabella
+  [
+    { x: -1.5, y: -0.35 },
+    { x: 1.5, y: -0.35 },
+  ],
+  // nose: nasion to alae
+  [
+    { x: -0.5, y: SUBNASALE_Y - 0.1 },
+    { x: 0, y: -0.1 },
+    { x: 0.5, y: SUBNASALE_Y - 0.1 },
+    { x: 0, y: SUBNASALE_Y },
+    { x: -0.5, y: SUBNASALE_Y - 0.1 },
+  ],
+  // mouth
+  [
+    { x: -PHI / 2, y: STOMION_Y },
+    { x: 0, y: STOMION_Y - 0.25 },
+    { x: PHI / 2, y: STOMION_Y },
+    { x: 0, y: STOMION_Y + 0.3 },
+    { x: -PHI / 2, y: STOMION_Y },
+  ],
+  // midline
+  [
+    { x: 0, y: TRICHION_Y },
+    { x: 0, y: MENTON_Y },
+  ],
+];
+
+export type PhiRatio = { id: string; label: string; value: number; deviation: number };
+
+export type PhiAnalysis = {
+  // template units -> image px
+  fit: Affine;
+  // mask polylines in image px
+  lines: Vec2[][];
+  // RMS distance between fitted template and landmarks, as % of the fitted face width
+  fitErrorPct: number;
+  ratios: PhiRatio[];
+};
+
+function dist(landmarks: Landmark[], a: LandmarkName, b: LandmarkName): number | null {
+  const p = getLandmark(landmarks, a);
+  const q = getLandmark(landmarks, b);
+  return p && q ? Math.hypot(p[0] - q[0], p[1] - q[1]) : null;
+}
+
+// trichion is passed in because the mesh doesn't reach it (see thirds.ts)
+export function phiAnalysis(landmarks: Landmark[], trichion: Vec2 | null): PhiAnalysis | null {
+  const names = (Object.keys(MASK_TEMPLATE) as LandmarkName[]).filter((n) => getLandmark(landmarks, n));
+  if (names.length < 4) return null;
+  const src = names.map((n) => MASK_TEMPLATE[n]!);
+  const dst = names.map((n) => {
+    const lm = getLandmark(landmarks, n)!;
+    return { x: lm[0], y: lm[1] };
+  });
+  const fit = fitSimilarity(src, dst);
+  if (!fit) return null;
+
+  const scale = Math.hypot(fit.a, fit.b);
+  const sq = src.reduce((s, p, i) => {
+    const q = applyAffine(fit, p);
+    return s + (q.x - dst[i].x) ** 2 + (q.y - dst[i].y) ** 2;
+  }, 0);
+  const fitErrorPct = (Math.sqrt(sq / src.length) / (scale * FACE_W)) * 100;
+
+  const ratios: PhiRatio[] = [];
+  const push = (id: string, label: string, num: number | null, den: number | null) => {
+    if (num === null || den === null || !(den > 0)) return;
+    const value = num / den;
+    ratios.push({ id, label, value, deviation: value / PHI - 1 });
+  };
+  const menton = getLandmark(landmarks, "menton");
+  const faceLength = trichion && menton ? Math.hypot(menton[0] - trichion.x, menton[1] - trichion.y) : null;
+  push("face_length_width", "Face length : width", faceLength, dist(landmarks, "zygion_right", "zygion_left"));
+  push(
+    "mouth_nose_width",
+    "Mouth width : nose width",
+    dist(landmarks, "cheilion_right", "cheilion_left"),
+    dist(landmarks, "alar_right", "alar_left")
+  );
+  push(
+    "lower_face",
+    "Subnasale–menton : stomion–menton",
+    dist(landmarks, "subnasale", "menton"),
+    dist(landmarks, "stomion_superius", "menton")
+  );
+
+  return { fit, lines: MASK_LINES.map((line) => line.map((p) => applyAffine(fit, p))), fitErrorPct, ratios };
+}
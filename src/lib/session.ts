@@ -0,0 +1,130 @@
+// src/lib/session.ts
+// JSON session export: everything needed to reproduce a consultation's annotations
+import type { Calibration } from "./calibration.ts";
+import type { DepthSample } from "./depth.ts";
+import type { FaceShape, FaceShapeRatios, FaceShapeRules } from "./faceShape.ts";
+import type { HeadPose } from "./headPose.ts";
+import type { LandmarkOverrides } from "./landmarkOverrides.ts";
+import type { LipIdeals, LipMetric } from "./lips.ts";
+import type { MidlineLine, MidlineMode, MidlineResidual } from "./midline.ts";
+import type { LowerFaceAnalysis } from "./lowerFace.ts";
+import type { MeasurementKind, MeasurementValue } from "./measurements.ts";
+import type { midfaceSummary } from "./midface.ts";
+import type { NoseMetric } from "./nose.ts";
+import type { periorbitalSummary } from "./periorbital.ts";
+import type { RelativeLocation } from "./pointLocation.ts";
+import type { PhiRatio } from "./proportions.ts";
+import type { RegionAsymmetry } from "./symmetry.ts";
+import type { FacialThirds } from "./thirds.ts";
+import type { Vec2 } from "./transform.ts";
+
+export const SESSION_VERSION = 1;
+
+export type SessionPoint = {
+  id: string;
+  // image px
+  x: number;
+  y: number;
+  product?: string;
+  dose?: string;
+  note?: string;
+  // patient's side of the midline
+  midlineSide: "L" | "R" | "C";
+  midlineOffsetPx: number;
+  midlineOffsetMm: number | null;
+  // position relative to the nearest named landmarks, for finding the spot again on the next visit
+  location: RelativeLocation[];
+};
+
+// lengths are in px with a matching *Mm field, null while uncalibrated
+export type SessionExport = {
+  version: number;
+  exportedAt: string;
+  image: { name: string | null; width: number; height: number } | null;
+  calibration: Calibration;
+  headPose: HeadPose | null;
+  // manual corrections to the detected mesh (landmark index -> image px)
+  landmarkOverrides: LandmarkOverrides;
+  // the midline every offset above/below was measured against (image px)
+  midline: { mode: MidlineMode | "bounding-box"; line: MidlineLine; residual: MidlineResidual | null } | null;
+  // upper / middle / lower thirds; trichion in image px
+  thirds: {
+    trichion: Vec2;
+    trichionSource: FacialThirds["trichionSource"];
+    heightsPx: FacialThirds["heights"];
+    heightsMm: FacialThirds["heights"] | null;
+    proportions: FacialThirds["proportions"];
+  } | null;
+  // horizontal fifths (patient's right to left) and golden-ratio proportions
+  proportions: {
+    fifths: { widthsPx: number[]; widthsMm: number[] | null; proportions: number[] } | null;
+    phi: { fitErrorPct: number; ratios: PhiRatio[] } | null;
+  };
+  lips: { ideals: LipIdeals; metrics: LipMetric[] } | null;
+  // alar width / tip / alar base measurements; px values in the face frame, tip deviation > 0 = towards the patient's left
+  nose: {
+    alarWidthPx: number;
+    alarWidthMm: number | null;
+    intercanthalPx: number;
+    intercanthalMm: number | null;
+    tipDeviationPx: number;
+    tipDeviationMm: number | null;
+    metrics: NoseMetric[];
+  } | null;
+  // canthal tilt, brow height and brow apex per side (px values in image px)
+  periorbital: ReturnType<typeof periorbitalSummary> | null;
+  // tear trough / lid-cheek junction per side: length in image px, depth behind the lid-cheek slope in mesh z (no mm twin)
+  midface: ReturnType<typeof midfaceSummary> | null;
+  // jawline / chin widths in image px; gonial angle only when the pose was frontal
+  lowerFace: {
+    gonion: LowerFaceAnalysis["gonion"];
+    bigonialPx: number;
+    bigonialMm: number | null;
+    chinWidthPx: number;
+    chinWidthMm: number | null;
+    bizygomaticPx: number | null;
+    bizygomaticMm: number | null;
+    taperRatio: number;
+    jawToCheekRatio: number | null;
+    gonialAngleDeg: LowerFaceAnalysis["gonialAngleDeg"];
+  } | null;
+  // classified shape with the rules and ratios it was decided from; widths in face-frame px
+  faceShape: {
+    shape: FaceShape;
+    rules: FaceShapeRules;
+    ratios: FaceShapeRatios;
+    widthsPx: { forehead: number; cheekbone: number; jaw: number; length: number };
+    widthsMm: { forehead: number; cheekbone: number; jaw: number; length: number } | null;
+    trichionEstimated: boolean;
+    scores: { shape: FaceShape; score: number }[];
+  } | null;
+  // per-region asymmetry (scores are % of outer canthal width; distances in image px)
+  symmetry: { overallScore: number; regions: RegionAsymmetry[] } | null;
+  // mesh z projection of a few sites relative to the medial canthi (roughly image px); null without depth
+  depth: { sites: { name: string; label: string; projectionPx: number }[] } | null;
+  points: SessionPoint[];
+  // ruler / protractor / area / depth-profile tools; points in image px
+  measurements: {
+    id: string;
+    kind: MeasurementKind;
+    label?: string;
+    points: Vec2[];
+    value: number | null;
+    valueMm: number | null;
+    unit: MeasurementValue["unit"] | null;
+    // profile lines only
+    depthProfile?: { reliefPx: number | null; samples: DepthSample[] };
+  }[];
+};
+
+export function downloadJson(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
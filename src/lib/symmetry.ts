@@ -0,0 +1,177 @@
+// src/lib/symmetry.ts
+// Bilateral symmetry: mirror the patient's right side across the midline and compare it with the left.
+import type { Landmark } from "./detector.ts";
+import type { Vec2 } from "./transform.ts";
+import { getLandmark } from "./landmarkRegistry.ts";
+
+export type SymmetryRegion = "forehead" | "brow" | "eye" | "nose" | "cheek" | "lip" | "jaw";
+
+export const SYMMETRY_REGIONS: { id: SymmetryRegion; label: string }[] = [
+  { id: "forehead", label: "Forehead" },
+  { id: "brow", label: "Brow" },
+  { id: "eye", label: "Eye" },
+  { id: "nose", label: "Nose" },
+  { id: "cheek", label: "Cheek" },
+  { id: "lip", label: "Lip" },
+  { id: "jaw", label: "Jaw" },
+];
+
+// [patient's right, patient's left] mesh indices, zipped from the canonical FaceMesh contour groups.
+// This is mesh topology rather than named anatomy, so it lives here instead of the landmark registry.
+function zip(right: number[], left: number[]): [number, number][] {
+  return right.map((r, i) => [r, left[i]]);
+}
+
+const MIRROR_PAIRS: Record<SymmetryRegion, [number, number][]> = {
+  forehead: zip([109, 67, 103, 54, 21, 162], [338, 297, 332, 284, 251, 389]),
+  brow: [
+    ...zip([156, 70, 63, 105, 66, 107, 55, 193], [383, 300, 293, 334, 296, 336, 285, 417]),
+    ...zip([35, 124, 46, 53, 52, 65], [265, 353, 276, 283, 282, 295]),
+  ],
+  eye: [
+    ...zip([246, 161, 160, 159, 158, 157, 173], [466, 388, 387, 386, 385, 384, 398]),
+    ...zip([33, 7, 163, 144, 145, 153, 154, 155, 133], [263, 249, 390, 373, 374, 380, 381, 382, 362]),
+    ...zip([247, 30, 29, 27, 28, 56, 190], [467, 260, 259, 257, 258, 286, 414]),
+    ...zip([130, 25, 110, 24, 23, 22, 26, 112, 243], [359, 255, 339, 254, 253, 252, 256, 341, 463]),
+    ...zip([113, 225, 224, 223, 222, 221, 189], [342, 445, 444, 443, 442, 441, 413]),
+    ...zip([226, 31, 228, 229, 230, 231, 232, 233, 244], [446, 261, 448, 449, 450, 451, 452, 453, 464]),
+    ...zip([143, 111, 117, 118, 119, 120, 121, 128, 245], [372, 340, 346, 347, 348, 349, 350, 357, 465]),
+    // iris centres (refined mesh only; skipped otherwise)
+    [468, 473],
+  ],
+  nose: zip([98, 64, 48, 129, 102, 49, 131, 115, 220, 45], [327, 294, 278, 358, 331, 279, 360, 344, 440, 275]),
+  cheek: zip([127, 234, 93, 50, 205, 187, 123, 116, 147, 36, 207], [356, 454, 323, 280, 425, 411, 352, 345, 376, 266, 427]),
+  lip: [
+    ...zip([61, 185, 40, 39, 37], [291, 409, 270, 269, 267]),
+    ...zip([146, 91, 181, 84], [375, 321, 405, 314]),
+    ...zip([78, 191, 80, 81, 82], [308, 415, 310, 311, 312]),
+    ...zip([95, 88, 178, 87], [324, 318, 402, 317]),
+  ],
+  jaw: zip([132, 58, 172, 136, 150, 149, 176, 148], [361, 288, 397, 365, 379, 378, 400, 377]),
+};
+
+export type PairAsymmetry = {
+  region: SymmetryRegion;
+  right: number;
+  left: number;
+  // distance between the mirrored right point and the left point (image px)
+  distPx: number;
+  // along the midline: > 0 when the left point sits higher than the right one (image px)
+  verticalPx: number;
+  // across the midline: > 0 when the left point is further from the midline (image px)
+  lateralPx: number;
+  // distPx as a percentage of the outer canthal width, so scores compare across photos
+  score: number;
+};
+
+export type RegionAsymmetry = {
+  region: SymmetryRegion;
+  pairs: number;
+  meanScore: number;
+  maxScore: number;
+  meanDistPx: number;
+  meanVerticalPx: number;
+  meanLateralPx: number;
+};
+
+export type SymmetryReport = {
+  pairs: PairAsymmetry[];
+  regions: RegionAsymmetry[];
+  // mean score over all pairs
+  overall: number;
+};
+
+// mirror `p` across the line through a and b
+export function reflectAcross(p: Vec2, a: Vec2, b: Vec2): Vec2 {
+  const vx = b.x - a.x;
+  const vy = b.y - a.y;
+  const len2 = vx * vx + vy * vy;
+  if (len2 === 0) return p;
+  const t = ((p.x - a.x) * vx + (p.y - a.y) * vy) / len2;
+  const fx = a.x + t * vx;
+  const fy = a.y + t * vy;
+  return { x: 2 * fx - p.x, y: 2 * fy - p.y };
+}
+
+export function analyzeSymmetry(landmarks: Landmark[], midline: { a: Vec2; b: Vec2 } | null): SymmetryReport | null {
+  if (!midline || landmarks.length === 0) return null;
+  const rEye = getLandmark(landmarks, "exocanthion_right");
+  const lEye = getLandmark(landmarks, "exocanthion_left");
+  const ref = rEye && lEye ? Math.hypot(lEye[0] - rEye[0], lEye[1] - rEye[1]) : 0;
+  if (!(ref > 0)) return null;
+
+  const { a, b } = midline;
+  const axisLen = Math.hypot(b.x - a.x, b.y - a.y);
+  if (axisLen === 0) return null;
+  // unit vector pointing up the face (chin -> forehead) and the signed distance from the midline
+  const up = { x: (a.x - b.x) / axisLen, y: (a.y - b.y) / axisLen };
+  const across = (p: Vec2) => Math.abs((p.x - a.x) * up.y - (p.y - a.y) * up.x);
+
+  const pairs: PairAsymmetry[] = [];
+  for (const { id: region } of SYMMETRY_REGIONS) {
+    for (const [ri, li] of MIRROR_PAIRS[region]) {
+      const r = landmarks[ri];
+      const l = landmarks[li];
+      if (!r || !l) continue;
+      const rp = { x: r[0], y: r[1] };
+      const lp = { x: l[0], y: l[1] };
+      const mirrored = reflectAcross(rp, a, b);
+      const distPx = Math.hypot(lp.x - mirrored.x, lp.y - mirrored.y);
+      pairs.push({
+        region,
+        right: ri,
+        left: li,
+        distPx,
+        verticalPx: (lp.x - rp.x) * up.x + (lp.y - rp.y) * up.y,
+        lateralPx: across(lp) - across(rp),
+        score: (distPx / ref) * 100,
+      });
+    }
+  }
+  if (pairs.length === 0) return null;
+
+  const mean = (xs: number[]) => xs.reduce((s, x) => s + x, 0) / xs.length;
+  const regions: RegionAsymmetry[] = SYMMETRY_REGIONS.map(({ id }) => {
+    const rp = pairs.filter((p) => p.region === id);
+    if (rp.length === 0) return null;
+    return {
+      region: id,
+      pairs: rp.length,
+      meanScore: mean(rp.map((p) => p.score)),
+      maxScore: Math.max(...rp.map((p) => p.score)),
+      meanDistPx: mean(rp.map((p) => p.distPx)),
+      meanVerticalPx: mean(rp.map((p) => p.verticalPx)),
+      meanLateralPx: mean(rp.map((p) => p.lateralPx)),
+    };
+  }).filter((r): r is RegionAsymmetry => r !== null);
+
+  return { pairs, regions, overall: mean(pairs.map((p) => p.score)) };
+}
+
+// score (% of canthal width) at which the heatmap saturates to red
+export const HEATMAP_MAX_SCORE = 6;
+
+// green (symmetric) -> yellow -> red (HEATMAP_MAX_SCORE and above)
+export function heatColor(score: number, alpha = 1) {
+  const t = Math.max(0, Math.min(1, score / HEATMAP_MAX_SCORE));
+  return `hsla(${Math.round(120 * (1 - t))}, 90%, 45%, ${alpha})`;
+}
+
+// convex hull (monotone chain), used to shade a region on each side
+export function convexHull(points: Vec2[]): Vec2[] {
+  const pts = points.slice().sort((p, q) => p.x - q.x || p.y - q.y);
+  if (pts.length < 3) return pts;
+  const cross = (o: Vec2, p: Vec2, q: Vec2) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  const lower: Vec2[] = [];
+  for (const p of pts) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Vec2[] = [];
+  for (let i = pts.length - 1; i >= 0; i--) {
+    const p = pts[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
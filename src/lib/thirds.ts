@@ -0,0 +1,70 @@
+// src/lib/thirds.ts
+// Anatomical facial thirds: trichion–glabella, glabella–subnasale, subnasale–menton,
+// measured along the face's vertical axis (face frame, see level.ts).
+import type { Landmark } from "./detector.ts";
+import type { Affine, Vec2 } from "./transform.ts";
+import { applyAffine } from "./transform.ts";
+import { getLandmark, type LandmarkName } from "./landmarkRegistry.ts";
+
+export const IDEAL_THIRD = 1 / 3;
+// deviation from the ideal (fraction of face height) above which a third is flagged
+export const THIRDS_TOLERANCE = 0.03;
+
+// the mesh stops short of the hairline. Trichion is estimated by extending glabella -> forehead top
+// by this factor; it is only a starting point for the user to drag onto the actual hairline.
+export const TRICHION_EXTENSION = 1.6;
+
+export type ThirdsLevel = "trichion" | "glabella" | "subnasale" | "menton";
+
+export type FacialThirds = {
+  // image px
+  trichion: Vec2;
+  trichionSource: "estimated" | "manual";
+  // face-frame y of each boundary, top to bottom
+  levels: { name: ThirdsLevel; y: number }[];
+  // upper / middle / lower heights (px) and their share of the total
+  heights: [number, number, number];
+  proportions: [number, number, number];
+};
+
+const BOUNDARY_LANDMARKS: Record<Exclude<ThirdsLevel, "trichion">, LandmarkName> = {
+  glabella: "glabella",
+  subnasale: "subnasale",
+  menton: "menton",
+};
+
+function xy(lm: Landmark | undefined): Vec2 | null {
+  return lm ? { x: lm[0], y: lm[1] } : null;
+}
+
+export function estimateTrichion(landmarks: Landmark[]): Vec2 | null {
+  const glabella = xy(getLandmark(landmarks, "glabella"));
+  const top = xy(getLandmark(landmarks, "forehead_top"));
+  if (!glabella || !top) return null;
+  return {
+    x: glabella.x + (top.x - glabella.x) * TRICHION_EXTENSION,
+    y: glabella.y + (top.y - glabella.y) * TRICHION_EXTENSION,
+  };
+}
+
+// faceLevel: image px -> face frame (eye-line horizontal)
+export function facialThirds(landmarks: Landmark[], faceLevel: Affine, trichionOverride?: Vec2 | null): FacialThirds | null {
+  const trichion = trichionOverride ?? estimateTrichion(landmarks);
+  const glabella = xy(getLandmark(landmarks, BOUNDARY_LANDMARKS.glabella));
+  const subnasale = xy(getLandmark(landmarks, BOUNDARY_LANDMARKS.subnasale));
+  const menton = xy(getLandmark(landmarks, BOUNDARY_LANDMARKS.menton));
+  if (!trichion || !glabella || !subnasale || !menton) return null;
+
+  const ys = [trichion, glabella, subnasale, menton].map((p) => applyAffine(faceLevel, p).y);
+  const heights: [number, number, number] = [ys[1] - ys[0], ys[2] - ys[1], ys[3] - ys[2]];
+  const total = heights[0] + heights[1] + heights[2];
+  if (!(total > 0)) return null;
+
+  return {
+    trichion,
+    trichionSource: trichionOverride ? "manual" : "estimated",
+    levels: (["trichion", "glabella", "subnasale", "menton"] as const).map((name, i) => ({ name, y: ys[i] })),
+    heights,
+    proportions: [heights[0] / total, heights[1] / total, heights[2] / total],
+  };
+}
@@ -0,0 +1,136 @@
+// src/lib/transform.ts
+// Landmarks and annotation points live in image pixels (the photo's natural size).
+// The Stage only ever sees them through a ViewTransform, so precision doesn't depend on the window size.
+
+export type Vec2 = { x: number; y: number };
+
+// 2D affine matrix in canvas order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type Affine = { a: number; b: number; c: number; d: number; e: number; f: number };
+
+export const IDENTITY: Affine = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+export function applyAffine(m: Affine, p: Vec2): Vec2 {
+  return { x: m.a * p.x + m.c * p.y + m.e, y: m.b * p.x + m.d * p.y + m.f };
+}
+
+// compose(m, n) applies n first, then m
+export function composeAffine(m: Affine, n: Affine): Affine {
+  return {
+    a: m.a * n.a + m.c * n.b,
+    b: m.b * n.a + m.d * n.b,
+    c: m.a * n.c + m.c * n.d,
+    d: m.b * n.c + m.d * n.d,
+    e: m.a * n.e + m.c * n.f + m.e,
+    f: m.b * n.e + m.d * n.f + m.f,
+  };
+}
+
+export function invertAffine(m: Affine): Affine {
+  const det = m.a * m.d - m.b * m.c;
+  if (det === 0) return IDENTITY;
+  return {
+    a: m.d / det,
+    b: -m.b / det,
+    c: -m.c / det,
+    d: m.a / det,
+    e: (m.c * m.f - m.d * m.e) / det,
+    f: (m.b * m.e - m.a * m.f) / det,
+  };
+}
+
+export function scaleAffine(sx: number, sy = sx): Affine {
+  return { a: sx, b: 0, c: 0, d: sy, e: 0, f: 0 };
+}
+
+export type ViewTransform = {
+  // image px -> stage px
+  toStage: Affine;
+  // stage px -> image px
+  toImage: Affine;
+  // uniform stage px per image px (for converting radii / stroke tolerances)
+  scale: number;
+};
+
+export function makeViewTransform(toStage: Affine): ViewTransform {
+  return { toStage, toImage: invertAffine(toStage), scale: Math.sqrt(Math.abs(toStage.a * toStage.d - toStage.b * toStage.c)) || 1 };
+}
+
+export function imageToStage(view: ViewTransform, p: Vec2): Vec2 {
+  return applyAffine(view.toStage, p);
+}
+
+export function stageToImage(view: ViewTransform, p: Vec2): Vec2 {
+  return applyAffine(view.toImage, p);
+}
+
+export function translateAffine(tx: number, ty: number): Affine {
+  return { a: 1, b: 0, c: 0, d: 1, e: tx, f: ty };
+}
+
+// rotation by `rad` (clockwise on screen, since y points down) about (cx, cy)
+export function rotateAbout(rad: number, cx: number, cy: number): Affine {
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return composeAffine(translateAffine(cx, cy), composeAffine({ a: cos, b: sin, c: -sin, d: cos, e: 0, f: 0 }, translateAffine(-cx, -cy)));
+}
+
+// least-squares similarity (uniform scale + rotation + translation) mapping src -> dst
+export function fitSimilarity(src: Vec2[], dst: Vec2[]): Affine | null {
+  const n = src.length;
+  if (n < 2 || n !== dst.length) return null;
+  const ms = { x: src.reduce((s, p) => s + p.x, 0) / n, y: src.reduce((s, p) => s + p.y, 0) / n };
+  const md = { x: dst.reduce((s, p) => s + p.x, 0) / n, y: dst.reduce((s, p) => s + p.y, 0) / n };
+  let dotSum = 0;
+  let crossSum = 0;
+  let norm = 0;
+  for (let i = 0; i < n; i++) {
+    const sx = src[i].x - ms.x;
+    const sy = src[i].y - ms.y;
+    const dx = dst[i].x - md.x;
+    const dy = dst[i].y - md.y;
+    dotSum += sx * dx + sy * dy;
+    crossSum += sx * dy - sy * dx;
+    norm += sx * sx + sy * sy;
+  }
+  if (norm === 0) return null;
+  const cos = dotSum / norm;
+  const sin = crossSum / norm;
+  return { a: cos, b: sin, c: -sin, d: cos, e: md.x - (cos * ms.x - sin * ms.y), f: md.y - (sin * ms.x + cos * ms.y) };
+}
+
+// helper: Konva node props (x, y, rotation, scale) equivalent to a similarity transform
+export function affineToNodeProps(m: Affine) {
+  return {
+    x: m.e,
+    y: m.f,
+    rotation: (Math.atan2(m.b, m.a) * 180) / Math.PI,
+    scaleX: Math.hypot(m.a, m.b),
+    scaleY: Math.hypot(m.c, m.d),
+  };
+}
+
+// fit the image, after an optional pre-transform (e.g. levelling rotation), inside maxW x maxH.
+// Returns the view transform plus the stage size that exactly holds the transformed image.
+export function layoutView(
+  imageW: number,
+  imageH: number,
+  pre: Affine,
+  maxW: number,
+  maxH: number
+): { view: ViewTransform; width: number; height: number } {
+  const corners = [
+    { x: 0, y: 0 },
+    { x: imageW, y: 0 },
+    { x: imageW, y: imageH },
+    { x: 0, y: imageH },
+  ].map((p) => applyAffine(pre, p));
+  const minX = Math.min(...corners.map((p) => p.x));
+  const maxX = Math.max(...corners.map((p) => p.x));
+  const minY = Math.min(...corners.map((p) => p.y));
+  const maxY = Math.max(...corners.map((p) => p.y));
+  const bw = maxX - minX || 1;
+  const bh = maxY - minY || 1;
+  const s = Math.min(maxW / bw, maxH / bh);
+  const toStage = composeAffine(scaleAffine(s), composeAffine(translateAffine(-minX, -minY), pre));
+  return { view: makeViewTransform(toStage), width: Math.round(bw * s), height: Math.round(bh * s) };
+}
@@ -1,5 +1,4 @@
 declare module "use-image";
-declare module "react-konva";
 declare module "@tensorflow-models/face-landmarks-detection";
 
 type LandmarkPoint = { x: number; y: number; z?: number };
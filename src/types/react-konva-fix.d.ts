@@ -1,6 +0,0 @@
-// src/types/react-konva-fix.d.ts
-declare module "react-konva" {
-  import * as React from "react";
-  const exports: any;
-  export = exports;
-}
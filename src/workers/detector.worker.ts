@@ -0,0 +1,153 @@
+// src/workers/detector.worker.ts
+// Owns the TF backend, the FaceMesh model and inference so the main thread never blocks on them.
+import { INITIAL_MODEL_STATUS, ModelMissingError } from "../lib/models.ts";
+import { initBackendChain } from "./tfBackends.ts";
+import { clearModelCache, loadFaceMeshModels } from "./modelLoader.ts";
+import { createTfjsDetector, scalePrediction, type LandmarkDetector } from "../lib/detector.ts";
+import type { WorkerRequest, WorkerResponse } from "./protocol.ts";
+
+let detector: LandmarkDetector | null = null;
+let initPromise: Promise<void> | null = null;
+
+// detect requests run one at a time; cancelled ids are skipped or have their result dropped
+const queue: Extract<WorkerRequest, { type: "detect" }>[] = [];
+const cancelled = new Set<number>();
+// id of the request being run, so a cancel for a finished request isn't kept forever
+let running: number | null = null;
+let busy = false;
+
+function post(msg: WorkerResponse) {
+  self.postMessage(msg);
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+async function init(req: Extract<WorkerRequest, { type: "init" }>) {
+  post({ type: "progress", phase: "backend", message: `Initialising backend (${req.backends.join(" → ")})…` });
+  const status = await initBackendChain(req.backends);
+  post({ type: "backend", status });
+  if (!status.active) {
+    post({ type: "init-error", error: `No TF backend available: ${status.error}` });
+    return;
+  }
+
+  post({ type: "progress", phase: "model", message: "Loading FaceMesh weights…" });
+  post({ type: "model", status: { ...INITIAL_MODEL_STATUS, state: "loading" } });
+  let models: Awaited<ReturnType<typeof loadFaceMeshModels>>;
+  try {
+    models = await loadFaceMeshModels();
+  } catch (err) {
+    post({
+      type: "model",
+      status: { state: err instanceof ModelMissingError ? "missing" : "failed", sources: {}, error: errorMessage(err) },
+    });
+    post({ type: "init-error", error: errorMessage(err) });
+    return;
+  }
+
+  post({ type: "progress", phase: "detector", message: "Creating detector…" });
+  const options = {
+    maxFaces: req.maxFaces,
+    refineLandmarks: true,
+    detectorModelUrl: models.detectorModelUrl,
+    landmarkModelUrl: models.landmarkModelUrl,
+  };
+  // no fallback to loadLegacyDetector (see there)
+  try {
+    detector = await createTfjsDetector(options);
+  } catch (err) {
+    console.error("createDetector failed:", err);
+    post({ type: "model", status: { state: "failed", sources: models.sources, error: errorMessage(err) } });
+    post({ type: "init-error", error: errorMessage(err) });
+    return;
+  }
+
+  // first inference compiles shaders / allocates buffers; do it before the user is waiting on a photo
+  post({ type: "progress", phase: "warmup", message: "Warming up model…" });
+  try {
+    const warm = new OffscreenCanvas(64, 64);
+    await detector.estimate(warm.transferToImageBitmap());
+  } catch (err) {
+    console.warn("Detector warm-up failed:", err);
+  }
+
+  post({ type: "model", status: { state: "ready", sources: models.sources } });
+  post({ type: "ready", kind: detector.kind as "tfjs" | "legacy" });
+}
+
+async function runDetect(req: Extract<WorkerRequest, { type: "detect" }>) {
+  const { requestId, bitmap, maxSide } = req;
+  try {
+    if (cancelled.has(requestId)) {
+      post({ type: "cancelled", requestId });
+      return;
+    }
+    await initPromise;
+    if (!detector) throw new Error("detector not initialised");
+
+    const t0 = performance.now();
+    const longest = Math.max(bitmap.width, bitmap.height);
+    const k = maxSide > 0 && longest > maxSide ? maxSide / longest : 1;
+    let input: ImageBitmap = bitmap;
+    if (k !== 1) {
+      const off = new OffscreenCanvas(Math.round(bitmap.width * k), Math.round(bitmap.height * k));
+      off.getContext("2d")!.drawImage(bitmap, 0, 0, off.width, off.height);
+      input = off.transferToImageBitmap();
+    }
+
+    post({ type: "progress", phase: "estimate", requestId, message: `Detecting faces (${input.width}×${input.height})…` });
+    const raw = await detector.estimate(input);
+    const sx = bitmap.width / input.width;
+    const sy = bitmap.height / input.height;
+    if (input !== bitmap) input.close();
+
+    if (cancelled.has(requestId)) {
+      post({ type: "cancelled", requestId });
+      return;
+    }
+    post({ type: "result", requestId, faces: raw.map((p) => scalePrediction(p, sx, sy)), ms: Math.round(performance.now() - t0) });
+  } catch (err) {
+    post({ type: "detect-error", requestId, error: errorMessage(err) });
+  } finally {
+    bitmap.close();
+    cancelled.delete(requestId);
+  }
+}
+
+async function drain() {
+  if (busy) return;
+  busy = true;
+  while (queue.length > 0) {
+    const req = queue.shift()!;
+    running = req.requestId;
+    await runDetect(req);
+    running = null;
+  }
+  busy = false;
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const req = e.data;
+  switch (req.type) {
+    case "init":
+      if (!initPromise) {
+        initPromise = init(req).catch((err) => {
+          console.error("Detector worker init error:", err);
+          post({ type: "init-error", error: errorMessage(err) });
+        });
+      }
+      break;
+    case "detect":
+      queue.push(req);
+      drain();
+      break;
+    case "cancel":
+      if (running === req.requestId || queue.some((q) => q.requestId === req.requestId)) cancelled.add(req.requestId);
+      break;
+    case "clear-cache":
+      clearModelCache();
+      break;
+  }
+};
@@ -0,0 +1,60 @@
+// src/workers/modelLoader.ts
+import * as tf from "@tensorflow/tfjs-core";
+import { MODEL_PATHS, ModelMissingError, cacheKey, modelUrl, type ModelId, type ModelSource } from "../lib/models.ts";
+
+// load from IndexedDB, falling back to the local path (and caching what we fetched)
+async function loadArtifacts(id: ModelId): Promise<{ artifacts: tf.io.ModelArtifacts; source: ModelSource }> {
+  const [cacheLoader] = tf.io.getLoadHandlers(cacheKey(id));
+  if (cacheLoader?.load) {
+    try {
+      const artifacts = await cacheLoader.load();
+      return { artifacts, source: "cache" };
+    } catch {
+      // not cached yet
+    }
+  }
+
+  const url = modelUrl(id);
+  let artifacts: tf.io.ModelArtifacts;
+  try {
+    artifacts = await tf.io.http(url).load();
+  } catch (err) {
+    throw new ModelMissingError(id, url, err);
+  }
+
+  const [cacheSaver] = tf.io.getSaveHandlers(cacheKey(id));
+  if (cacheSaver?.save) {
+    try {
+      await cacheSaver.save(artifacts);
+    } catch (err) {
+      console.warn(`Could not cache "${id}" model in IndexedDB:`, err);
+    }
+  }
+  return { artifacts, source: "local" };
+}
+
+// resolves the detector/landmark model handlers passed to createDetector()
+export async function loadFaceMeshModels(): Promise<{
+  detectorModelUrl: tf.io.IOHandler;
+  landmarkModelUrl: tf.io.IOHandler;
+  sources: Record<ModelId, ModelSource>;
+}> {
+  const detector = await loadArtifacts("detector");
+  const landmarks = await loadArtifacts("landmarks");
+  return {
+    detectorModelUrl: tf.io.fromMemory(detector.artifacts),
+    landmarkModelUrl: tf.io.fromMemory(landmarks.artifacts),
+    sources: { detector: detector.source, landmarks: landmarks.source },
+  };
+}
+
+// drop cached copies, e.g. after replacing the files in public/models
+export async function clearModelCache() {
+  for (const id of Object.keys(MODEL_PATHS) as ModelId[]) {
+    try {
+      await tf.io.removeModel(cacheKey(id));
+    } catch {
+      // nothing cached
+    }
+  }
+}
@@ -0,0 +1,24 @@
+// src/workers/protocol.ts
+// Messages exchanged between FaceCanvas (via src/lib/detectorClient.ts) and detector.worker.ts
+import type { BackendName, BackendStatus } from "../lib/backends.ts";
+import type { ModelStatus } from "../lib/models.ts";
+import type { FacePrediction } from "../lib/detector.ts";
+
+export type DetectorPhase = "backend" | "model" | "detector" | "warmup" | "estimate";
+
+export type WorkerRequest =
+  | { type: "init"; backends: BackendName[]; maxFaces: number }
+  // bitmap is the full-resolution image; maxSide > 0 downsizes it (in the worker) before inference
+  | { type: "detect"; requestId: number; bitmap: ImageBitmap; maxSide: number }
+  | { type: "cancel"; requestId: number }
+  | { type: "clear-cache" };
+
+export type WorkerResponse =
+  | { type: "progress"; phase: DetectorPhase; requestId?: number; message: string }
+  | { type: "backend"; status: BackendStatus }
+  | { type: "model"; status: ModelStatus }
+  | { type: "ready"; kind: "tfjs" | "legacy" }
+  | { type: "init-error"; error: string }
+  | { type: "result"; requestId: number; faces: FacePrediction[]; ms: number }
+  | { type: "cancelled"; requestId: number }
+  | { type: "detect-error"; requestId: number; error: string };
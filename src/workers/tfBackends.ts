@@ -0,0 +1,49 @@
+// src/workers/tfBackends.ts
+import * as tf from "@tensorflow/tfjs-core";
+import "@tensorflow/tfjs-backend-webgl";
+import "@tensorflow/tfjs-backend-cpu";
+import { setWasmPaths } from "@tensorflow/tfjs-backend-wasm";
+import wasmUrl from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url";
+import wasmSimdUrl from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url";
+import wasmThreadedSimdUrl from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url";
+import { DEFAULT_BACKEND_CHAIN, type BackendAttempt, type BackendName, type BackendStatus } from "../lib/backends.ts";
+
+// serve the wasm binaries from our own bundle instead of the jsdelivr default
+setWasmPaths({
+  "tfjs-backend-wasm.wasm": wasmUrl,
+  "tfjs-backend-wasm-simd.wasm": wasmSimdUrl,
+  "tfjs-backend-wasm-threaded-simd.wasm": wasmThreadedSimdUrl,
+});
+
+function errorMessage(err: unknown) {
+  if (err instanceof Error) return err.message;
+  return String(err);
+}
+
+// try each backend in order until one initialises; never throws, failures are reported in the status
+export async function initBackendChain(chain: BackendName[] = DEFAULT_BACKEND_CHAIN): Promise<BackendStatus> {
+  const started = performance.now();
+  const attempts: BackendAttempt[] = [];
+
+  for (const name of chain) {
+    const t0 = performance.now();
+    try {
+      const ok = await tf.setBackend(name);
+      if (!ok) throw new Error(`tf.setBackend("${name}") returned false`);
+      await tf.ready();
+      attempts.push({ name, ok: true, ms: Math.round(performance.now() - t0) });
+      return { state: "ready", active: name, loadMs: Math.round(performance.now() - started), attempts };
+    } catch (err) {
+      console.warn(`Backend "${name}" failed, trying next:`, err);
+      attempts.push({ name, ok: false, ms: Math.round(performance.now() - t0), error: errorMessage(err) });
+    }
+  }
+
+  return {
+    state: "failed",
+    active: null,
+    loadMs: Math.round(performance.now() - started),
+    attempts,
+    error: attempts.length > 0 ? attempts[attempts.length - 1].error : "empty backend chain",
+  };
+}